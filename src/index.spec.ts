@@ -1,9 +1,21 @@
 import { randomBytes, randomUUID } from "node:crypto";
 import { unlink } from "fs/promises";
+import { Readable } from "node:stream";
+import zlib from "node:zlib";
 import { tmpdir } from "os";
 import { join } from "path";
 import { expect, test } from "vitest";
-import SqliteCache from ".";
+import cbor from "cbor";
+import { caching } from "cache-manager";
+import Keyv from "keyv";
+import z from "zod";
+import SqliteCache, {
+  SCHEMA_VERSION,
+  SqliteCacheManagerStore,
+  SqliteCacheSync,
+  SqliteKeyvStore,
+  formatPrometheusMetrics,
+} from ".";
 
 // Helper function to close multiple caches and optionally clean up database file
 async function cleanupCaches(
@@ -522,3 +534,2397 @@ test("lru cleanup should not clear table when items less than maxItems", async (
     await cleanupCaches([cache]);
   }
 });
+
+test("getOrSet", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+  });
+
+  try {
+    expect(await cache.getOrSet("foo", () => "bar")).toBe("bar");
+    expect(await cache.get("foo")).toBe("bar");
+
+    // Existing value is returned without calling the loader
+    expect(await cache.getOrSet("foo", () => "baz")).toBe("bar");
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("getOrSet coalesces concurrent misses", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+  });
+
+  try {
+    let calls = 0;
+    const loader = async () => {
+      calls++;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return "bar";
+    };
+
+    const results = await Promise.all(
+      Array.from({ length: 10 }, () => cache.wrap("foo", loader))
+    );
+
+    expect(results).toEqual(Array(10).fill("bar"));
+    expect(calls).toBe(1);
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("getOrSet loader error", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+  });
+
+  try {
+    let calls = 0;
+    const loader = async () => {
+      calls++;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      throw new Error("loader failed");
+    };
+
+    const results = await Promise.allSettled([
+      cache.getOrSet("foo", loader),
+      cache.getOrSet("foo", loader),
+    ]);
+
+    expect(results.map((r) => r.status)).toEqual(["rejected", "rejected"]);
+    expect(calls).toBe(1);
+    expect(await cache.get("foo")).toBeUndefined();
+
+    // Errors are not cached, next call runs the loader again
+    expect(await cache.getOrSet("foo", () => "bar")).toBe("bar");
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("getOrSet ttl", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+  });
+
+  try {
+    await cache.getOrSet("foo", () => "bar", { ttlMs: 20 });
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(await cache.get("foo")).toBeUndefined();
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("getMany setMany deleteMany", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+  });
+
+  try {
+    await cache.setMany<unknown>([
+      { key: "a", value: 1 },
+      { key: "b", value: { foo: "bar" } },
+      { key: "expires", value: 3, ttlMs: 20 },
+    ]);
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(await cache.getMany(["b", "missing", "a", "expires"])).toEqual([
+      { foo: "bar" },
+      undefined,
+      1,
+      undefined,
+    ]);
+
+    await cache.deleteMany(["a", "missing"]);
+    expect(await cache.getMany(["a", "b"])).toEqual([
+      undefined,
+      { foo: "bar" },
+    ]);
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("getMany updates lru", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+    maxItems: 2,
+  });
+
+  try {
+    await cache.setMany([
+      { key: "foo", value: "bar" },
+      { key: "xyz", value: "bar" },
+    ]);
+
+    for (let i = 0; i < 5; i++) {
+      await cache.set("foo" + i, "bar");
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      await cache.getMany(["xyz"]);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(await cache.getMany(["foo", "xyz"])).toEqual([undefined, "bar"]);
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("maxSizeBytes", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+    maxSizeBytes: 2500,
+  });
+
+  try {
+    await cache.set("a", Buffer.alloc(1000));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await cache.set("b", Buffer.alloc(1000));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await cache.get("a");
+    // Wait for the debounced cleanup so that setting "c" triggers it again
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    await cache.set("c", Buffer.alloc(1000));
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(await cache.get("a")).toEqual(Buffer.alloc(1000));
+    expect(await cache.get("b")).toBeUndefined();
+    expect(await cache.get("c")).toEqual(Buffer.alloc(1000));
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("maxEntrySizeBytes skip", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+    maxEntrySizeBytes: 100,
+  });
+
+  try {
+    await cache.set("foo", "bar");
+    await cache.set("foo", Buffer.alloc(200));
+    expect(await cache.get("foo")).toBeUndefined();
+
+    await cache.setMany([
+      { key: "small", value: "bar" },
+      { key: "big", value: "x".repeat(200) },
+    ]);
+    expect(await cache.getMany(["small", "big"])).toEqual(["bar", undefined]);
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("maxEntrySizeBytes throw", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+    maxEntrySizeBytes: 100,
+    oversizedEntry: "throw",
+  });
+
+  try {
+    await cache.set("foo", "bar");
+    await expect(cache.set("foo", Buffer.alloc(200))).rejects.toThrow(
+      "maxEntrySizeBytes"
+    );
+    expect(await cache.get("foo")).toBe("bar");
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("size column added to existing table", async () => {
+  const dbPath = join(tmpdir(), randomUUID() + ".db");
+  let cache = new SqliteCache({
+    database: dbPath,
+  });
+
+  try {
+    await cache.set("foo", "bar");
+    // Simulate table created by a release without size column and schema versioning
+    const con = (await (cache as any).db).db;
+    con.exec("ALTER TABLE cache DROP COLUMN size");
+    con.exec("DROP TABLE cache_sqlite_lru_ttl_schema");
+    await cache.close();
+
+    cache = new SqliteCache({
+      database: dbPath,
+    });
+
+    expect(await cache.get("foo")).toBe("bar");
+    const result = (await (cache as any).db).db
+      .prepare("SELECT size FROM cache WHERE key = 'foo'")
+      .get() as { size: number };
+    expect(result.size).toBe(4);
+  } finally {
+    await cleanupCaches([cache], dbPath);
+  }
+});
+
+test("invalidateTag", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+  });
+
+  try {
+    await cache.set("user:42:profile", "a", { tags: ["user:42"] });
+    await cache.set("user:42:posts", "b", { tags: ["user:42", "posts"] });
+    await cache.set("user:43:posts", "c", { tags: ["user:43", "posts"] });
+
+    await cache.invalidateTag("user:42");
+    expect(
+      await cache.getMany(["user:42:profile", "user:42:posts", "user:43:posts"])
+    ).toEqual([undefined, undefined, "c"]);
+
+    await cache.set("foo", "bar", { tags: ["x"] });
+    await cache.set("baz", "qux", { tags: ["y"] });
+    await cache.invalidateTags(["posts", "x"]);
+    expect(await cache.getMany(["user:43:posts", "foo", "baz"])).toEqual([
+      undefined,
+      undefined,
+      "qux",
+    ]);
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("tags replaced on set", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+  });
+
+  try {
+    await cache.set("foo", "bar", { tags: ["a"] });
+    await cache.set("foo", "baz", { tags: ["b"] });
+
+    await cache.invalidateTag("a");
+    expect(await cache.get("foo")).toBe("baz");
+
+    await cache.invalidateTag("b");
+    expect(await cache.get("foo")).toBeUndefined();
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("tags cleaned up with their items", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+    maxItems: 1,
+  });
+
+  const countTags = async () =>
+    (
+      (await (cache as any).db).db
+        .prepare("SELECT COUNT(*) AS count FROM cache_tags")
+        .get() as { count: number }
+    ).count;
+
+  try {
+    await cache.set("deleted", "bar", { tags: ["a", "b"] });
+    await cache.delete("deleted");
+    expect(await countTags()).toBe(0);
+
+    await cache.set("expires", "bar", { tags: ["a"], ttlMs: 10 });
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    await cache.set("evicted", "bar", { tags: ["a"] });
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    await cache.set("kept", "bar", { tags: ["b"] });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(await countTags()).toBe(1);
+    expect(await cache.get("kept")).toBe("bar");
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("stale items", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+  });
+
+  try {
+    await cache.set("foo", "bar", { ttlMs: 20, staleTtlMs: 1000 });
+    expect(await cache.getWithStatus("foo")).toEqual({
+      value: "bar",
+      stale: false,
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(await cache.get("foo")).toBeUndefined();
+    expect(await cache.getMany(["foo"])).toEqual([undefined]);
+    expect(await cache.getWithStatus("foo")).toEqual({
+      value: "bar",
+      stale: true,
+    });
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("stale items evicted after hard expiry", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+    defaultStaleTtlMs: 100,
+  });
+
+  try {
+    await cache.set("foo", "bar", { ttlMs: 50 });
+    await new Promise((resolve) => setTimeout(resolve, 60));
+
+    // Cleanup must not remove items which are only stale
+    expect((await cache.prune()).expired).toBe(0);
+    expect((await cache.getWithStatus("foo"))?.stale).toBe(true);
+
+    await new Promise((resolve) => setTimeout(resolve, 120));
+    expect(await cache.getWithStatus("foo")).toBeUndefined();
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("getOrSet stale while revalidate", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+  });
+
+  try {
+    await cache.set("foo", "old", { ttlMs: 10, staleTtlMs: 1000 });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    let resolveLoader!: (value: string) => void;
+    const loader = () =>
+      new Promise<string>((resolve) => (resolveLoader = resolve));
+
+    expect(await cache.getOrSet("foo", loader, { ttlMs: 1000 })).toBe("old");
+    resolveLoader("new");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(await cache.get("foo")).toBe("new");
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("getOrSet stale if error", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+  });
+
+  try {
+    await cache.set("foo", "old", { ttlMs: 10, staleTtlMs: 1000 });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const loader = async (): Promise<string> => {
+      throw new Error("loader failed");
+    };
+
+    expect(
+      await cache.getOrSet("foo", loader, { backgroundRefresh: false })
+    ).toBe("old");
+    expect(await cache.getWithStatus("foo")).toEqual({
+      value: "old",
+      stale: true,
+    });
+
+    expect(
+      await cache.getOrSet("foo", async () => "new", {
+        backgroundRefresh: false,
+      })
+    ).toBe("new");
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("json serializer", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+    serializer: "json",
+  });
+
+  try {
+    await cache.set("foo", { bar: [1, "baz", null] });
+    expect(await cache.get("foo")).toEqual({ bar: [1, "baz", null] });
+
+    const result = (await (cache as any).db).db
+      .prepare("SELECT value, serializer FROM cache LIMIT 1")
+      .get() as { value: Buffer; serializer: string };
+    expect(result.serializer).toBe("json");
+    expect(new TextDecoder().decode(result.value)).toBe(
+      '{"bar":[1,"baz",null]}'
+    );
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("raw serializer", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+    serializer: "raw",
+    compress: true,
+  });
+
+  const buffer = Buffer.alloc(10000, 1);
+
+  try {
+    await cache.set("foo", buffer);
+    expect(await cache.get("foo")).toEqual(buffer);
+    await expect(cache.set("bar", "baz")).rejects.toThrow("Buffer");
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("custom serializer", async () => {
+  class Point {
+    constructor(public x: number, public y: number) {}
+  }
+
+  const cache = new SqliteCache<Point>({
+    database: ":memory:",
+    serializer: {
+      name: "point",
+      encode: (value) => {
+        const point = value as Point;
+        return Buffer.from(`${point.x},${point.y}`);
+      },
+      decode: (buffer) => {
+        const [x, y] = buffer.toString().split(",").map(Number);
+        return new Point(x, y);
+      },
+    },
+  });
+
+  try {
+    await cache.set("foo", new Point(1, 2));
+    const point = await cache.get("foo");
+    expect(point).toBeInstanceOf(Point);
+    expect(point).toEqual(new Point(1, 2));
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("custom serializer can't use reserved name", () => {
+  for (const name of ["stream", "counter"]) {
+    expect(
+      () =>
+        new SqliteCache({
+          database: ":memory:",
+          serializer: {
+            name,
+            encode: (value) => Buffer.from(String(value)),
+            decode: (buffer) => buffer.toString(),
+          },
+        })
+    ).toThrow(/Serializer names .* are reserved/);
+  }
+});
+
+test("serializer switched on existing database", async () => {
+  const dbPath = join(tmpdir(), randomUUID() + ".db");
+  let cache = new SqliteCache({
+    database: dbPath,
+  });
+
+  try {
+    await cache.set("old", { date: new Date(0) });
+    await cache.close();
+
+    cache = new SqliteCache({
+      database: dbPath,
+      serializer: "json",
+    });
+
+    await cache.set("new", { date: new Date(0) });
+    expect(await cache.get("old")).toEqual({ date: new Date(0) });
+    expect(await cache.get("new")).toEqual({ date: new Date(0).toJSON() });
+  } finally {
+    await cleanupCaches([cache], dbPath);
+  }
+});
+
+test("compression codecs side by side", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+  });
+
+  const buffer = Buffer.alloc(10000, 0);
+  const codecs = ["gzip", "deflate", "brotli"] as const;
+
+  try {
+    for (const codec of codecs) {
+      await cache.set(codec, buffer, { compress: codec });
+    }
+    await cache.set("true", buffer, { compress: true });
+
+    for (const codec of codecs) {
+      expect(await cache.get(codec)).toEqual(buffer);
+    }
+    expect(await cache.get("true")).toEqual(buffer);
+
+    const rows = (await (cache as any).db).db
+      .prepare("SELECT key, compressed FROM cache ORDER BY compressed")
+      .all() as { key: string; compressed: number }[];
+    expect(rows.map((r) => [r.key, r.compressed])).toEqual([
+      ["gzip", 1],
+      ["true", 1],
+      ["deflate", 2],
+      ["brotli", 3],
+    ]);
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("compression level and min length", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+    compress: "brotli",
+    compressionMinLength: 100,
+  });
+
+  const buffer = Buffer.from("hello world ".repeat(20));
+
+  try {
+    await cache.set("default", buffer);
+    await cache.set("fast", buffer, { compressionLevel: 1 });
+    await cache.set("skipped", buffer, { compressionMinLength: 1000 });
+
+    expect(await cache.getMany(["default", "fast", "skipped"])).toEqual([
+      buffer,
+      buffer,
+      buffer,
+    ]);
+
+    const rows = (await (cache as any).db).db
+      .prepare("SELECT key, compressed FROM cache ORDER BY key")
+      .all() as { key: string; compressed: number }[];
+    expect(rows.map((r) => [r.key, r.compressed])).toEqual([
+      ["default", 3],
+      ["fast", 3],
+      ["skipped", 0],
+    ]);
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("zstd compression", async () => {
+  const supported = typeof (zlib as any).zstdCompress === "function";
+
+  if (!supported) {
+    expect(
+      () => new SqliteCache({ database: ":memory:", compress: "zstd" })
+    ).toThrow("not supported");
+    return;
+  }
+
+  const cache = new SqliteCache({
+    database: ":memory:",
+    compress: "zstd",
+  });
+
+  const buffer = Buffer.alloc(10000, 0);
+
+  try {
+    await cache.set("buf", buffer);
+    expect(await cache.get("buf")).toEqual(buffer);
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("schema version recorded", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+    cacheTableName: "my_cache",
+  });
+
+  try {
+    await cache.set("foo", "bar");
+    const row = (await (cache as any).db).db
+      .prepare(
+        "SELECT version FROM cache_sqlite_lru_ttl_schema WHERE tableName = 'my_cache'"
+      )
+      .get() as { version: number };
+    expect(row.version).toBe(SCHEMA_VERSION);
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("migrate table created before schema versioning", async () => {
+  const dbPath = join(tmpdir(), randomUUID() + ".db");
+  let cache = new SqliteCache({
+    database: dbPath,
+    cacheTableName: "bootstrap",
+  });
+
+  try {
+    // Create the table exactly like the first release did
+    const con = (await (cache as any).db).db;
+    con.exec(`CREATE TABLE cache (
+      key TEXT PRIMARY KEY,
+      value BLOB,
+      expires INT,
+      lastAccess INT,
+      compressed BOOLEAN
+    )`);
+    con
+      .prepare(
+        "INSERT INTO cache (key, value, expires, lastAccess, compressed) VALUES (?, ?, NULL, 0, 0)"
+      )
+      .run("foo", cbor.encode("bar"));
+    await cache.close();
+
+    cache = new SqliteCache({
+      database: dbPath,
+    });
+
+    expect(await cache.get("foo")).toBe("bar");
+    await cache.set("baz", "qux", { tags: ["tag"], staleTtlMs: 10 });
+    expect(await cache.get("baz")).toBe("qux");
+  } finally {
+    await cleanupCaches([cache], dbPath);
+  }
+});
+
+test("refuse newer schema version", async () => {
+  const dbPath = join(tmpdir(), randomUUID() + ".db");
+  let cache = new SqliteCache({
+    database: dbPath,
+  });
+
+  try {
+    await cache.set("foo", "bar");
+    (await (cache as any).db).db
+      .prepare("UPDATE cache_sqlite_lru_ttl_schema SET version = ?")
+      .run(SCHEMA_VERSION + 1);
+    await cache.close();
+
+    cache = new SqliteCache({
+      database: dbPath,
+    });
+
+    await expect(cache.get("foo")).rejects.toThrow(
+      `schema version ${SCHEMA_VERSION + 1}`
+    );
+  } finally {
+    await cleanupCaches([cache], dbPath);
+  }
+});
+
+test("stats", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+    maxItems: 2,
+  });
+
+  try {
+    await cache.set("foo", "bar");
+    await cache.set("expires", "bar", { ttlMs: 10 });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    await cache.get("foo");
+    await cache.getMany(["foo", "missing", "expires"]);
+    await cache.delete("foo");
+    await cache.delete("missing");
+
+    expect(await cache.stats()).toEqual({
+      cacheTableName: "cache",
+      hits: 2,
+      misses: 1,
+      expired: 1,
+      sets: 2,
+      deletes: 1,
+      ttlEvictions: 0,
+      lruEvictions: 0,
+      items: 1,
+      sizeBytes: 4,
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    await cache.setMany([
+      { key: "a", value: "bar" },
+      { key: "b", value: "bar" },
+      { key: "c", value: "bar" },
+    ]);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const stats = await cache.stats();
+    expect(stats.ttlEvictions).toBe(1);
+    expect(stats.lruEvictions).toBe(1);
+    expect(stats.items).toBe(2);
+
+    cache.resetStats();
+    expect(await cache.stats()).toMatchObject({ hits: 0, sets: 0, items: 2 });
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("formatPrometheusMetrics", async () => {
+  const cache1 = new SqliteCache({
+    database: ":memory:",
+  });
+  const cache2 = new SqliteCache({
+    database: ":memory:",
+    cacheTableName: 'quoted"name',
+  });
+
+  try {
+    await cache1.set("foo", "bar");
+    await cache1.get("foo");
+    await cache2.get("foo");
+
+    const text = formatPrometheusMetrics([
+      await cache1.stats(),
+      await cache2.stats(),
+    ]);
+
+    expect(text).toContain(
+      "# TYPE cache_sqlite_lru_ttl_hits_total counter\n" +
+        'cache_sqlite_lru_ttl_hits_total{cache_table="cache"} 1\n' +
+        'cache_sqlite_lru_ttl_hits_total{cache_table="quoted\\"name"} 0\n'
+    );
+    expect(text).toContain(
+      'cache_sqlite_lru_ttl_misses_total{cache_table="quoted\\"name"} 1\n'
+    );
+    expect(text).toContain("# TYPE cache_sqlite_lru_ttl_size_bytes gauge\n");
+    expect(text).toContain(
+      'cache_sqlite_lru_ttl_size_bytes{cache_table="cache"} 4\n'
+    );
+  } finally {
+    await cleanupCaches([cache1, cache2]);
+  }
+});
+
+test("events", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+    maxItems: 2,
+    maxEntrySizeBytes: 100,
+  });
+
+  const events: [string, unknown][] = [];
+  const names = ["set", "delete", "clear", "expired", "evicted"] as const;
+  for (const name of names) {
+    cache.on(name, (event) => events.push([name, event]));
+  }
+
+  try {
+    await cache.set("foo", "bar", { tags: ["tag"] });
+    await cache.setMany<unknown>([
+      { key: "a", value: 1 },
+      { key: "foo", value: "x".repeat(200) },
+    ]);
+    await cache.set("b", 2, { tags: ["tag"] });
+    await cache.deleteMany(["a", "missing"]);
+    await cache.invalidateTag("tag");
+
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    await cache.set("expires", 1, { ttlMs: 10 });
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    await cache.setMany([
+      { key: "c", value: 3 },
+      { key: "d", value: 4 },
+    ]);
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    await cache.get("d");
+    await cache.set("e", 5);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await cache.clear();
+
+    expect(events).toEqual([
+      ["set", { keys: ["foo"], reason: "set" }],
+      ["set", { keys: ["a"], reason: "set" }],
+      ["delete", { keys: ["foo"], reason: "oversized" }],
+      ["set", { keys: ["b"], reason: "set" }],
+      ["delete", { keys: ["a"], reason: "delete" }],
+      ["delete", { keys: ["b"], reason: "tag" }],
+      ["set", { keys: ["expires"], reason: "set" }],
+      ["set", { keys: ["c", "d"], reason: "set" }],
+      ["expired", { keys: ["expires"], reason: "ttl" }],
+      ["set", { keys: ["e"], reason: "set" }],
+      ["evicted", { keys: ["c"], reason: "maxItems" }],
+      ["clear", { keys: ["d", "e"], reason: "clear" }],
+    ]);
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("events listener errors are isolated", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+  });
+
+  const error = console.error;
+  const errors: unknown[] = [];
+  console.error = (...args: unknown[]) => errors.push(args);
+
+  const listener = () => {
+    throw new Error("listener failed");
+  };
+
+  try {
+    cache.on("set", listener);
+    cache.on("delete", async () => {
+      throw new Error("async listener failed");
+    });
+
+    await cache.set("foo", "bar");
+    await cache.delete("foo");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(errors).toHaveLength(2);
+
+    cache.off("set", listener);
+    await cache.set("foo", "bar");
+    expect(errors).toHaveLength(2);
+    expect(await cache.get("foo")).toBe("bar");
+  } finally {
+    console.error = error;
+    await cleanupCaches([cache]);
+  }
+});
+
+test("keys values entries", async () => {
+  const cache = new SqliteCache<number>({
+    database: ":memory:",
+  });
+
+  const collect = async <T>(iterable: AsyncIterable<T>) => {
+    const result: T[] = [];
+    for await (const item of iterable) {
+      result.push(item);
+    }
+    return result;
+  };
+
+  try {
+    for (let i = 0; i < 25; i++) {
+      await cache.set(`item:${String(i).padStart(2, "0")}`, i);
+    }
+    await cache.set("other", 100);
+    await cache.set("expires", 200, { ttlMs: 10 });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const keys = await collect(cache.keys({ batchSize: 10 }));
+    expect(keys).toHaveLength(26);
+    expect(keys[0]).toBe("item:00");
+    expect(keys[25]).toBe("other");
+
+    expect(await collect(cache.keys({ prefix: "item:2" }))).toEqual([
+      "item:20",
+      "item:21",
+      "item:22",
+      "item:23",
+      "item:24",
+    ]);
+    expect(
+      await collect(cache.values({ pattern: "item:?3", batchSize: 1 }))
+    ).toEqual([3, 13, 23]);
+    expect(
+      await collect(
+        cache.entries({ pattern: "ITEM:1%", patternSyntax: "like" })
+      )
+    ).toHaveLength(10);
+    expect(await collect(cache.entries({ prefix: "oth" }))).toEqual([
+      ["other", 100],
+    ]);
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("deleteByPrefix deleteByPattern", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+  });
+
+  try {
+    await cache.setMany([
+      { key: "user:1", value: 1 },
+      { key: "user:2", value: 2 },
+      { key: "post:1", value: 3 },
+      { key: "post:2", value: 4 },
+      { key: "100%", value: 5 },
+      { key: "100", value: 6 },
+    ]);
+
+    await cache.deleteByPrefix("user:");
+    await cache.deleteByPattern("*:1");
+    await cache.deleteByPattern("100\\%", "like");
+
+    const keys: string[] = [];
+    for await (const key of cache.keys()) {
+      keys.push(key);
+    }
+    expect(keys).toEqual(["100", "post:2"]);
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("has peek", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+    maxItems: 2,
+  });
+
+  try {
+    await cache.set("foo", "bar");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await cache.set("xyz", "bar");
+
+    expect(await cache.has("foo")).toBe(true);
+    expect(await cache.has("missing")).toBe(false);
+    expect(await cache.peek("foo")).toBe("bar");
+    expect(await cache.peek("missing")).toBeUndefined();
+
+    // peek must not protect "foo" from eviction
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    await cache.set("new", "bar");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(await cache.has("foo")).toBe(false);
+    expect(await cache.has("xyz")).toBe(true);
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("getWithMetadata", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+    compress: "deflate",
+  });
+
+  const buffer = Buffer.alloc(10000, 0);
+
+  try {
+    const before = Date.now();
+    await cache.set("foo", buffer, { ttlMs: 1000, staleTtlMs: 500 });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const meta = await cache.getWithMetadata("foo");
+    expect(meta).toMatchObject({
+      value: buffer,
+      stale: false,
+      compressed: "deflate",
+      serializer: "cbor",
+    });
+    expect(meta!.size).toBeLessThan(buffer.length);
+    expect(meta!.lastAccess.getTime()).toBeLessThanOrEqual(before + 5);
+    expect(meta!.staleAt!.getTime()).toBeGreaterThanOrEqual(before + 1000);
+    expect(meta!.expires!.getTime() - meta!.staleAt!.getTime()).toBe(500);
+
+    // Last access is updated by the read
+    const meta2 = await cache.getWithMetadata("foo");
+    expect(meta2!.lastAccess.getTime()).toBeGreaterThan(
+      meta!.lastAccess.getTime()
+    );
+
+    expect(await cache.getWithMetadata("missing")).toBeUndefined();
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("ttl touch expire", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+  });
+
+  try {
+    await cache.set("forever", "bar");
+    await cache.set("foo", "bar", { ttlMs: 1000 });
+
+    expect(await cache.ttl("forever")).toBe(Infinity);
+    expect(await cache.ttl("missing")).toBeUndefined();
+    expect(await cache.ttl("foo")).toBeGreaterThan(900);
+
+    expect(await cache.touch("foo", 60000)).toBe(true);
+    expect(await cache.ttl("foo")).toBeGreaterThan(59000);
+    expect(await cache.touch("missing", 60000)).toBe(false);
+
+    expect(await cache.touch("foo")).toBe(true);
+    expect(await cache.ttl("foo")).toBe(Infinity);
+
+    expect(await cache.expire("forever", Date.now() + 20)).toBe(true);
+    expect(await cache.get("forever")).toBe("bar");
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(await cache.get("forever")).toBeUndefined();
+    expect(await cache.expire("forever", undefined)).toBe(false);
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("touch keeps stale period", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+  });
+
+  try {
+    await cache.set("foo", "bar", { ttlMs: 10, staleTtlMs: 1000 });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect((await cache.getWithStatus("foo"))?.stale).toBe(true);
+
+    expect(await cache.touch("foo", 1000)).toBe(true);
+    const meta = await cache.getWithMetadata("foo");
+    expect(meta!.stale).toBe(false);
+    expect(meta!.expires!.getTime() - meta!.staleAt!.getTime()).toBe(1000);
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("sync get set delete clear", () => {
+  const cache = new SqliteCacheSync({
+    database: ":memory:",
+  });
+
+  try {
+    cache.set("foo", { bar: "baz" });
+    cache.set("num", 5);
+    expect(cache.get("foo")).toEqual({ bar: "baz" });
+    expect(cache.get("missing")).toBeUndefined();
+
+    cache.delete("foo");
+    expect(cache.get("foo")).toBeUndefined();
+
+    cache.clear();
+    expect(cache.get("num")).toBeUndefined();
+  } finally {
+    cache.close();
+  }
+
+  expect(() => cache.get("foo")).toThrow("Cache is closed");
+  expect(
+    () =>
+      new SqliteCacheSync({
+        database: ":memory:",
+        memoryCache: { maxItems: 10 },
+      })
+  ).toThrow("SqliteCacheSync doesn't support memoryCache");
+});
+
+test("sync ttl and compression", async () => {
+  const cache = new SqliteCacheSync({
+    database: ":memory:",
+    compress: "brotli",
+  });
+
+  const buffer = Buffer.alloc(10000, 0);
+
+  try {
+    cache.set("buf", buffer);
+    cache.set("expires", "bar", { ttlMs: 10 });
+    expect(cache.get("buf")).toEqual(buffer);
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(cache.get("expires")).toBeUndefined();
+  } finally {
+    cache.close();
+  }
+});
+
+test("sync and async share the same table", async () => {
+  const dbPath = join(tmpdir(), randomUUID() + ".db");
+  const syncCache = new SqliteCacheSync({
+    database: dbPath,
+    compress: true,
+  });
+  const cache = new SqliteCache({
+    database: dbPath,
+    serializer: "json",
+  });
+
+  const buffer = Buffer.alloc(10000, 0);
+
+  try {
+    syncCache.set("fromSync", buffer);
+    await cache.set(
+      "fromAsync",
+      { foo: "bar".repeat(1000) },
+      { compress: "deflate" }
+    );
+
+    expect(await cache.get("fromSync")).toEqual(buffer);
+    expect(syncCache.get("fromAsync")).toEqual({ foo: "bar".repeat(1000) });
+  } finally {
+    syncCache.close();
+    await cleanupCaches([cache], dbPath);
+  }
+});
+
+// Open database connection with the same driver as the cache would
+function openDatabase(path: string): any {
+  try {
+    const { Database } = require("bun:sqlite");
+    return new Database(path, { strict: true });
+  } catch {
+    const Database = require("better-sqlite3");
+    return new Database(path);
+  }
+}
+
+test("sqlite tuning defaults", async () => {
+  const dbPath = join(tmpdir(), randomUUID() + ".db");
+  const cache = new SqliteCache({
+    database: dbPath,
+  });
+
+  try {
+    const con = (await (cache as any).db).db;
+    expect(con.prepare("PRAGMA journal_mode").get()).toEqual({
+      journal_mode: "wal",
+    });
+    expect(con.prepare("PRAGMA busy_timeout").get()).toEqual({
+      timeout: 5000,
+    });
+  } finally {
+    await cleanupCaches([cache], dbPath);
+  }
+});
+
+test("sqlite tuning options", async () => {
+  const dbPath = join(tmpdir(), randomUUID() + ".db");
+  const cache = new SqliteCache({
+    database: dbPath,
+    journalMode: "TRUNCATE",
+    synchronous: "OFF",
+    busyTimeoutMs: 100,
+    mmapSize: 1024 * 1024,
+    cacheSize: -4096,
+  });
+
+  try {
+    await cache.set("foo", "bar");
+    const con = (await (cache as any).db).db;
+    const pragma = (name: string) =>
+      Object.values(con.prepare(`PRAGMA ${name}`).get())[0];
+
+    expect(pragma("journal_mode")).toBe("truncate");
+    expect(pragma("synchronous")).toBe(0);
+    expect(pragma("busy_timeout")).toBe(100);
+    expect(pragma("mmap_size")).toBe(1024 * 1024);
+    expect(pragma("cache_size")).toBe(-4096);
+  } finally {
+    await cleanupCaches([cache], dbPath);
+    // Truncate journal mode keeps empty journal file
+    await unlink(dbPath + "-journal").catch(() => {});
+  }
+});
+
+test("shared database connection", async () => {
+  const con = openDatabase(":memory:");
+  con.exec("CREATE TABLE app (id INT)");
+
+  const cache = new SqliteCache({
+    database: con,
+  });
+  const syncCache = new SqliteCacheSync({
+    database: con,
+  });
+
+  try {
+    await cache.set("foo", "bar");
+    expect(syncCache.get("foo")).toBe("bar");
+    expect((await (cache as any).db).db).toBe(con);
+
+    await cache.close();
+    syncCache.close();
+
+    // Connection is still open and contains both application and cache tables
+    const tables = con
+      .prepare("SELECT name FROM sqlite_master WHERE type = 'table'")
+      .all()
+      .map((t: { name: string }) => t.name);
+    expect(tables).toContain("app");
+    expect(tables).toContain("cache");
+  } finally {
+    await cleanupCaches([cache]);
+    con.close();
+  }
+});
+
+test("memory cache serves reads and is invalidated with sqlite", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+    memoryCache: { maxItems: 2 },
+  });
+
+  try {
+    await cache.set("foo", { a: 1 }, { tags: ["t"] });
+    await cache.set("bar", "bar");
+    const db = await (cache as any).db;
+
+    // Served from memory even after sqlite row is changed behind its back
+    db.db.exec("UPDATE cache SET value = x'00'");
+    expect(await cache.get("foo")).toEqual({ a: 1 });
+    expect((await cache.stats()).hits).toBe(1);
+
+    await cache.invalidateTag("t");
+    expect(await cache.get("foo")).toBeUndefined();
+
+    // Least recently used item is evicted from memory
+    await cache.set("baz", "baz");
+    await cache.set("qux", "qux");
+    expect(await cache.getMany(["baz", "qux"])).toEqual(["baz", "qux"]);
+    expect((cache as any).memory.items.has("bar")).toBe(false);
+
+    await cache.delete("baz");
+    expect(await cache.get("baz")).toBeUndefined();
+    await cache.clear();
+    expect(await cache.get("qux")).toBeUndefined();
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("memory cache respects ttl", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+    memoryCache: { ttlMs: 1000 },
+  });
+
+  try {
+    await cache.set("foo", "foo", { ttlMs: 50 });
+    await cache.set("bar", "bar");
+    const db = await (cache as any).db;
+    db.db.exec("UPDATE cache SET value = x'6362617a'"); // cbor "baz"
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(await cache.get("foo")).toBeUndefined();
+    expect(await cache.get("bar")).toBe("bar");
+
+    // Memory ttl elapsed so value is read again from sqlite
+    (cache as any).memory.items.get("bar").expires = Date.now();
+    expect(await cache.get("bar")).toBe("baz");
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("memory cache reads count for eviction", async () => {
+  const con = openDatabase(":memory:");
+  const cache = new SqliteCache({
+    database: con,
+    maxItems: 2,
+    memoryCache: {},
+  });
+  const wait = () => new Promise((resolve) => setTimeout(resolve, 5));
+  const lastAccess = () =>
+    con.prepare("SELECT lastAccess FROM cache WHERE key = 'a'").get()
+      .lastAccess;
+
+  try {
+    await cache.set("a", 1);
+    const written = lastAccess();
+    await wait();
+    await cache.set("b", 2);
+    await wait();
+    for (let i = 0; i < 5; i++) {
+      expect(await cache.get("a")).toBe(1);
+    }
+    expect(await cache.getMany(["a"])).toEqual([1]);
+    // Memory hits are batched even without accessFlushIntervalMs
+    expect(lastAccess()).toBe(written);
+    await wait();
+    await cache.set("c", 3);
+    await cache.prune();
+
+    expect(await cache.has("a")).toBe(true);
+    expect(await cache.has("b")).toBe(false);
+    expect(await cache.has("c")).toBe(true);
+  } finally {
+    await cleanupCaches([cache]);
+    con.close();
+  }
+});
+
+test("keyv store conformance", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+  });
+  const keyv = new Keyv({ store: new SqliteKeyvStore(cache), namespace: "kv" });
+  const other = new Keyv({
+    store: new SqliteKeyvStore(cache),
+    namespace: "other",
+  });
+
+  try {
+    await other.set("foo", "other");
+
+    expect(await keyv.set("foo", { value: "bar" })).toBe(true);
+    expect(await keyv.get("foo")).toEqual({ value: "bar" });
+    expect(await keyv.get("missing")).toBeUndefined();
+    expect(await keyv.has("foo")).toBe(true);
+    expect(await other.get("foo")).toBe("other");
+
+    await keyv.setMany([
+      { key: "a", value: 1 },
+      { key: "b", value: 2, ttl: 10 },
+    ]);
+    expect(await keyv.getMany(["a", "b", "c"])).toEqual([1, 2, undefined]);
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(await keyv.get("b")).toBeUndefined();
+
+    const entries: unknown[] = [];
+    for await (const entry of keyv.iterator!(undefined)) {
+      entries.push(entry);
+    }
+    expect(entries).toEqual([
+      ["a", 1],
+      ["foo", { value: "bar" }],
+    ]);
+
+    expect(await keyv.delete("foo")).toBe(true);
+    expect(await keyv.delete("foo")).toBe(false);
+    expect(await keyv.deleteMany(["a", "c"])).toBe(true);
+
+    await keyv.set("foo", "bar");
+    await keyv.clear();
+    expect(await keyv.has("foo")).toBe(false);
+    expect(await other.get("foo")).toBe("other");
+
+    await keyv.disconnect();
+    await expect(cache.get("other:foo")).rejects.toThrow("Cache is closed");
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("cache-manager store conformance", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+  });
+  const manager = await caching(
+    new SqliteCacheManagerStore(cache, { namespace: "cm*" })
+  );
+
+  try {
+    await cache.set("other", "other");
+
+    await manager.set("foo", "bar", 1000);
+    expect(await manager.get("foo")).toBe("bar");
+    expect(await cache.get("cm*:foo")).toBe("bar");
+    expect(await manager.store.ttl("foo")).toBeGreaterThan(900);
+    expect(await manager.store.ttl("missing")).toBe(0);
+
+    await manager.store.mset(
+      [
+        ["a", 1],
+        ["b", 2],
+      ],
+      10
+    );
+    expect(await manager.store.mget("a", "b", "c")).toEqual([1, 2, undefined]);
+    expect((await manager.store.keys()).sort()).toEqual(["a", "b", "foo"]);
+    expect(await manager.store.keys("f*")).toEqual(["foo"]);
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(await manager.get("a")).toBeUndefined();
+
+    // wrap loads missing values once and serves them from the store after
+    let loads = 0;
+    const load = async () => {
+      loads++;
+      return "loaded";
+    };
+    expect(await manager.wrap("wrapped", load, 1000)).toBe("loaded");
+    expect(await manager.wrap("wrapped", load, 1000)).toBe("loaded");
+    expect(loads).toBe(1);
+
+    await manager.set("a", 1);
+    await manager.store.mdel("a", "b");
+    await manager.del("foo");
+    expect(await manager.get("a")).toBeUndefined();
+    expect(await manager.get("foo")).toBeUndefined();
+
+    await manager.set("foo", "bar");
+    await manager.reset();
+    expect(await manager.store.keys()).toEqual([]);
+    expect(await cache.get("other")).toBe("other");
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("export and import", async () => {
+  const source = new SqliteCache({
+    database: ":memory:",
+    compress: true,
+    compressionMinLength: 1,
+  });
+  const ndjsonTarget = new SqliteCache({
+    database: ":memory:",
+  });
+  const cborTarget = new SqliteCache({
+    database: ":memory:",
+  });
+
+  try {
+    await source.set("foo", "a".repeat(1000), { tags: ["t"] });
+    await source.set("bar", { bar: 1 }, { ttlMs: 1000, staleTtlMs: 1000 });
+    await source.set("expired", 1, { ttlMs: 1 });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    let ndjson = "";
+    for await (const chunk of source.export()) {
+      ndjson += chunk.toString();
+    }
+    const lines = ndjson.trim().split("\n");
+    expect(lines.map((l) => JSON.parse(l).key)).toEqual(["bar", "foo"]);
+    expect(JSON.parse(lines[1])).toMatchObject({
+      compressed: "gzip",
+      serializer: "cbor",
+      expiresInMs: null,
+      tags: ["t"],
+    });
+
+    await ndjsonTarget.set("foo", "kept");
+    // Import in small chunks splitting lines
+    const split = [ndjson.slice(0, 10), ndjson.slice(10)];
+    expect(await ndjsonTarget.import(split)).toBe(1);
+    expect(await ndjsonTarget.get("foo")).toBe("kept");
+    expect(await ndjsonTarget.import(split, { overwrite: true })).toBe(2);
+    expect(await ndjsonTarget.get("foo")).toBe("a".repeat(1000));
+
+    expect(
+      await cborTarget.import(source.export({ format: "cbor" }), {
+        format: "cbor",
+      })
+    ).toBe(2);
+    const meta = await cborTarget.getWithMetadata("bar");
+    expect(meta!.value).toEqual({ bar: 1 });
+    expect(meta!.staleAt!.getTime() - Date.now()).toBeGreaterThan(900);
+    expect(meta!.expires!.getTime() - meta!.staleAt!.getTime()).toBe(1000);
+    expect((await cborTarget.getWithMetadata("foo"))!.compressed).toBe("gzip");
+
+    await cborTarget.invalidateTag("t");
+    expect(await cborTarget.get("foo")).toBeUndefined();
+  } finally {
+    await cleanupCaches([source, ndjsonTarget, cborTarget]);
+  }
+});
+
+test("backup", async () => {
+  const dbPath = join(tmpdir(), randomUUID() + ".db");
+  const backupPath = join(tmpdir(), randomUUID() + ".db");
+  const cache = new SqliteCache({
+    database: dbPath,
+  });
+
+  try {
+    await cache.set("foo", "bar");
+    await cache.backup(backupPath);
+    await cache.set("foo", "baz");
+
+    const restored = new SqliteCache({
+      database: backupPath,
+    });
+    try {
+      expect(await restored.get("foo")).toBe("bar");
+    } finally {
+      await cleanupCaches([restored], backupPath);
+    }
+  } finally {
+    await cleanupCaches([cache], dbPath);
+  }
+});
+
+test("encryption at rest with key rotation", async () => {
+  const oldKey = randomBytes(32);
+  const newKey = randomBytes(32);
+  const con = openDatabase(":memory:");
+  const cache = new SqliteCache({
+    database: con,
+    compress: true,
+    compressionMinLength: 1,
+    encryption: { keys: { old: oldKey }, currentKeyId: "old" },
+  });
+  const rotated = new SqliteCache({
+    database: con,
+    encryption: { keys: { old: oldKey, new: newKey }, currentKeyId: "new" },
+  });
+
+  try {
+    await cache.set("foo", "secret token");
+    await cache.set("bar", "other secret");
+    const row = con
+      .prepare("SELECT value, keyId FROM cache WHERE key = 'foo'")
+      .get();
+    expect(row.keyId).toBe("old");
+    expect(Buffer.from(row.value).includes("secret")).toBe(false);
+    expect(await cache.get("foo")).toBe("secret token");
+
+    // Rotated cache reads items encrypted with old key and writes with the new one
+    await rotated.set("baz", "new secret");
+    expect(await rotated.get("foo")).toBe("secret token");
+    expect((await rotated.getWithMetadata("foo"))!.encryptionKeyId).toBe("old");
+    expect((await rotated.getWithMetadata("baz"))!.encryptionKeyId).toBe("new");
+    // Items encrypted with an unknown key are treated as missing
+    expect(await cache.get("baz")).toBeUndefined();
+    expect(await rotated.get("baz")).toBeUndefined();
+  } finally {
+    await cleanupCaches([cache, rotated]);
+    con.close();
+  }
+
+  expect(
+    () =>
+      new SqliteCache({
+        database: ":memory:",
+        encryption: { keys: { old: oldKey }, currentKeyId: "new" },
+      })
+  ).toThrow('Unknown cache encryption key "new"');
+  expect(
+    () =>
+      new SqliteCache({
+        database: ":memory:",
+        encryption: { keys: { short: randomBytes(16) }, currentKeyId: "short" },
+      })
+  ).toThrow("32 byte");
+});
+
+test("items failing decryption are deleted as invalid", async () => {
+  const con = openDatabase(":memory:");
+  const invalid: string[] = [];
+  const deleted: unknown[] = [];
+  const cache = new SqliteCache({
+    database: con,
+    encryption: { keys: { k: randomBytes(32) }, currentKeyId: "k" },
+    onInvalidValue: (key) => {
+      invalid.push(key);
+    },
+  });
+  cache.on("delete", (e) => {
+    deleted.push(e);
+  });
+
+  try {
+    await cache.set("a", "secret a");
+    await cache.set("b", "secret b");
+    await cache.set("c", "secret c");
+    await cache.set("d", "secret d");
+
+    // Encrypted values can't be moved under another key
+    for (const [key, from] of [
+      ["a", "b"],
+      ["b", "c"],
+      ["c", "d"],
+    ]) {
+      con.exec(
+        `UPDATE cache SET value = (SELECT value FROM cache WHERE key = '${from}') WHERE key = '${key}'`
+      );
+    }
+
+    expect(await cache.get("a")).toBeUndefined();
+    expect(await cache.has("a")).toBe(false);
+    expect(await cache.getOrSet("b", () => "reloaded")).toBe("reloaded");
+    expect(await cache.get("b")).toBe("reloaded");
+
+    // One bad item doesn't abort iteration
+    const entries: [string, unknown][] = [];
+    for await (const entry of cache.entries()) {
+      entries.push(entry);
+    }
+    expect(entries).toEqual([
+      ["b", "reloaded"],
+      ["d", "secret d"],
+    ]);
+
+    expect(invalid).toEqual(["a", "b", "c"]);
+    expect(deleted).toEqual(
+      ["a", "b", "c"].map((key) => ({ keys: [key], reason: "invalid" }))
+    );
+  } finally {
+    await cleanupCaches([cache]);
+    con.close();
+  }
+});
+
+async function readAll(stream: AsyncIterable<Buffer>): Promise<string> {
+  let text = "";
+  for await (const chunk of stream) {
+    text += chunk.toString();
+  }
+  return text;
+}
+
+test("setStream and getStream", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+    compress: true,
+    encryption: { keys: { k: randomBytes(32) }, currentKeyId: "k" },
+  });
+
+  try {
+    const parts = Array.from({ length: 100 }, (_, i) => `part ${i} `);
+    await cache.setStream("file", Readable.from(parts), {
+      chunkSize: 64,
+      tags: ["files"],
+    });
+
+    const db = await (cache as any).db;
+    const chunks = () =>
+      db.db.prepare("SELECT COUNT(*) AS count FROM cache_chunks").get().count;
+    expect(chunks()).toBeGreaterThan(1);
+
+    expect(await readAll((await cache.getStream("file"))!)).toBe(
+      parts.join("")
+    );
+    expect((await cache.get<Buffer>("file"))!.toString()).toBe(parts.join(""));
+    expect((await cache.stats()).sizeBytes).toBe(
+      (await cache.getWithMetadata("file"))!.size
+    );
+    expect(await cache.getStream("missing")).toBeUndefined();
+
+    // Exported as chunk records following the item
+    const ndjson = await readAll(cache.export());
+    const lines = ndjson
+      .trim()
+      .split("\n")
+      .map((l) => JSON.parse(l));
+    expect(lines[0]).toMatchObject({ key: "file", chunks: chunks() });
+    expect(lines.slice(1).map((l) => l.chunk)).toEqual(
+      Array.from({ length: chunks() }, (_, i) => i)
+    );
+
+    const ndjsonCopy = new SqliteCache({
+      database: ":memory:",
+      encryption: (cache as any).configuration.encryption,
+    });
+    const cborCopy = new SqliteCache({
+      database: ":memory:",
+      encryption: (cache as any).configuration.encryption,
+    });
+    try {
+      expect(await ndjsonCopy.import([ndjson])).toBe(1);
+      expect(await readAll((await ndjsonCopy.getStream("file"))!)).toBe(
+        parts.join("")
+      );
+      expect(
+        await cborCopy.import(cache.export({ format: "cbor" }), {
+          format: "cbor",
+        })
+      ).toBe(1);
+      expect(await readAll((await cborCopy.getStream("file"))!)).toBe(
+        parts.join("")
+      );
+      await cborCopy.invalidateTag("files");
+      expect(await cborCopy.getStream("file")).toBeUndefined();
+
+      await expect(
+        ndjsonCopy.import([
+          lines
+            .slice(0, 2)
+            .map((l) => JSON.stringify(l))
+            .join("\n"),
+        ])
+      ).rejects.toThrow('Cache item "file" is missing chunks');
+    } finally {
+      await cleanupCaches([ndjsonCopy, cborCopy]);
+    }
+
+    // Replaced and deleted items remove their chunks
+    await cache.setStream("file", ["small"]);
+    expect(chunks()).toBe(1);
+    expect(await readAll((await cache.getStream("file"))!)).toBe("small");
+    await cache.set("file", "not a stream");
+    expect(chunks()).toBe(0);
+    await expect(cache.getStream("file")).rejects.toThrow("not a Buffer");
+
+    // Failed stream leaves nothing behind
+    const failing = async function* () {
+      yield "partial";
+      throw new Error("source failed");
+    };
+    await expect(cache.setStream("failed", failing())).rejects.toThrow(
+      "source failed"
+    );
+    expect(await cache.has("failed")).toBe(false);
+    expect(chunks()).toBe(0);
+
+    await cache.setStream("file", ["again"], {
+      chunkSize: 2,
+      tags: ["files"],
+    });
+    await cache.invalidateTag("files");
+    await cache.setStream("other", ["other"], { chunkSize: 2 });
+    await cache.delete("other");
+    expect(chunks()).toBe(0);
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("prune removes chunks of interrupted streams", async () => {
+  const con = openDatabase(":memory:");
+  const cache = new SqliteCache({
+    database: con,
+    cleanupIntervalMs: false,
+  });
+  const chunks = () =>
+    con.prepare("SELECT COUNT(*) AS count FROM cache_chunks").get().count;
+
+  try {
+    await cache.prune();
+    const insert = con.prepare(
+      "INSERT INTO cache_chunks (id, idx, data, created) VALUES (?, ?, ?, ?)"
+    );
+    insert.run(Buffer.from("crashed"), 0, Buffer.from("x"), 0);
+    insert.run(Buffer.from("crashed"), 1, Buffer.from("x"), 0);
+    insert.run(Buffer.from("legacy"), 0, Buffer.from("x"), null);
+
+    let resume!: () => void;
+    const paused = new Promise<void>((resolve) => (resume = resolve));
+    const writing = cache.setStream(
+      "foo",
+      (async function* () {
+        yield Buffer.from("a");
+        await paused;
+        yield Buffer.from("b");
+      })(),
+      { chunkSize: 1 }
+    );
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(chunks()).toBe(4);
+
+    // Chunks of the stream in progress are kept
+    expect((await cache.prune()).abandonedStreams).toBe(2);
+    resume();
+    await writing;
+    expect(await readAll((await cache.getStream("foo"))!)).toBe("ab");
+    expect(chunks()).toBe(2);
+  } finally {
+    await cleanupCaches([cache]);
+    con.close();
+  }
+});
+
+test("schema validation of cached values", async () => {
+  const invalid: string[] = [];
+  const cache = new SqliteCache({
+    database: ":memory:",
+    schema: z.object({ name: z.string() }),
+    onInvalidValue: (key) => invalid.push(key),
+  });
+
+  try {
+    await cache.set("valid", { name: "foo" });
+    await cache.set("old", { title: "foo" } as any);
+    await cache.set("broken", { name: "bar" });
+    const db = await (cache as any).db;
+    db.db.exec("UPDATE cache SET value = x'ff' WHERE key = 'broken'");
+
+    expect(await cache.get("valid")).toEqual({ name: "foo" });
+    expect(await cache.get("old")).toBeUndefined();
+    expect(await cache.getMany(["valid", "broken"])).toEqual([
+      { name: "foo" },
+      undefined,
+    ]);
+    expect(invalid).toEqual(["old", "broken"]);
+    expect(await cache.has("old")).toBe(false);
+    expect(await cache.has("broken")).toBe(false);
+
+    const stats = await cache.stats();
+    expect(stats.hits).toBe(2);
+    expect(stats.misses).toBe(2);
+
+    // Per call schema overrides schema of the cache
+    expect(
+      await cache.get("valid", { schema: z.object({ name: z.number() }) })
+    ).toBeUndefined();
+    expect(await cache.has("valid")).toBe(false);
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("namespaces share the cache table", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+  });
+  const users = cache.namespace("users", { defaultTtlMs: 1000, maxItems: 2 });
+  const posts = cache.namespace("posts");
+
+  try {
+    const evicted: string[] = [];
+    users.on("evicted", ({ keys }) => evicted.push(...keys));
+
+    await users.set("1", "alice", { tags: ["t"] });
+    await posts.set("1", "hello", { tags: ["t"] });
+    expect(await users.get("1")).toBe("alice");
+    expect(await posts.get("1")).toBe("hello");
+    expect(await cache.get("users:1")).toBe("alice");
+    expect(await users.ttl("1")).toBeLessThanOrEqual(1000);
+    expect(await posts.ttl("1")).toBe(Infinity);
+
+    // Tags are isolated too
+    await users.invalidateTag("t");
+    expect(await users.get("1")).toBeUndefined();
+    expect(await posts.get("1")).toBe("hello");
+
+    // Quota of the namespace doesn't affect other items
+    await users.set("1", "alice");
+    await users.set("2", "bob");
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    await users.set("3", "carol");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(evicted).toEqual(["1"]);
+    const keys: string[] = [];
+    for await (const key of users.keys()) {
+      keys.push(key);
+    }
+    expect(keys).toEqual(["2", "3"]);
+    expect(await posts.get("1")).toBe("hello");
+
+    await users.clear();
+    expect(await users.get("2")).toBeUndefined();
+    expect(await posts.get("1")).toBe("hello");
+
+    await cache.namespace("posts").namespace("a").set("b", 1);
+    expect(await cache.get("posts:a:b")).toBe(1);
+    await users.close();
+    expect(await cache.get("posts:1")).toBe("hello");
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("namespace names can't collide with keys of other namespaces", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+  });
+
+  try {
+    expect(() => cache.namespace("a:b")).toThrow('must not contain ":"');
+    expect(() => cache.namespace("a").namespace("b:c")).toThrow(
+      'must not contain ":"'
+    );
+    expect(() => cache.namespace("")).toThrow("must not be empty");
+
+    const a = cache.namespace("a");
+    const ab = cache.namespace("ab");
+    await a.set("x", 1);
+    await ab.set("x", 2);
+    await a.clear();
+    expect(await ab.get("x")).toBe(2);
+
+    const nested = a.namespace("b", { maxItems: 1 });
+    await nested.set("x", 3);
+    expect(await cache.get("a:b:x")).toBe(3);
+    expect(await nested.expire("x", Date.now() - 1)).toBe(true);
+    expect(await nested.get("x")).toBeUndefined();
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("namespace pattern deletes don't match other namespaces", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+  });
+
+  try {
+    const lower = cache.namespace("users");
+    const upper = cache.namespace("USERS");
+    await lower.set("x", 1);
+    await upper.set("y", 2);
+
+    // LIKE ignores case, namespaces must not
+    await lower.deleteByPattern("%", "like");
+    expect(await lower.get("x")).toBeUndefined();
+    expect(await upper.get("y")).toBe(2);
+
+    await lower.set("x", 1);
+    await upper.deleteByPattern("*");
+    expect(await lower.get("x")).toBe(1);
+    expect(await upper.get("y")).toBeUndefined();
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("lfu eviction keeps frequently read items", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+    maxItems: 2,
+    evictionPolicy: "lfu",
+    lfuHalfLifeMs: 100,
+  });
+
+  try {
+    await cache.set("hot", "hot");
+    await cache.set("cold", "cold");
+    for (let i = 0; i < 5; i++) {
+      await cache.get("hot");
+    }
+    await cache.get("cold");
+
+    // Recently read but rarely used item is evicted instead of the hot one
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    await cache.set("new", "new");
+    await cache.get("new");
+    await cache.get("new");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(await cache.has("hot")).toBe(true);
+    expect(await cache.has("cold")).toBe(false);
+    expect(await cache.has("new")).toBe(true);
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("lfu eviction keeps freshly set items", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+    maxItems: 2,
+    evictionPolicy: "lfu",
+    lfuHalfLifeMs: 100,
+  });
+  const wait = (ms: number) =>
+    new Promise((resolve) => setTimeout(resolve, ms));
+
+  try {
+    await cache.set("a", 1);
+    await cache.set("b", 2);
+    await wait(5);
+    await cache.get("a");
+    await wait(5);
+    await cache.get("b");
+    await wait(5);
+    await cache.set("c", 3);
+    await cache.prune();
+
+    // New items are evicted in lru order until they are older than the half-life
+    expect(await cache.has("a")).toBe(false);
+    expect(await cache.get("c")).toBe(3);
+    await cache.get("c");
+    await cache.get("c");
+
+    await wait(150);
+    await cache.set("d", 4);
+    await cache.prune();
+    expect(await cache.has("b")).toBe(false);
+    expect(await cache.has("c")).toBe(true);
+    expect(await cache.has("d")).toBe(true);
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("sliding ttl with memory cache", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+    slidingTtl: true,
+    memoryCache: {},
+    // Memory hits extend expiration when they are flushed
+    accessFlushIntervalMs: 50,
+  });
+
+  try {
+    await cache.set("foo", "bar", { ttlMs: 200 });
+    for (let i = 0; i < 6; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      expect(await cache.get("foo")).toBe("bar");
+    }
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("fifo eviction ignores reads", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+    maxItems: 2,
+    evictionPolicy: "fifo",
+  });
+
+  try {
+    await cache.set("first", 1);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await cache.set("second", 2);
+    await cache.get("first");
+
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    await cache.set("third", 3);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(await cache.has("first")).toBe(false);
+    expect(await cache.has("second")).toBe(true);
+    expect(await cache.has("third")).toBe(true);
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("sliding ttl bounded by maxAgeMs", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+    slidingTtl: true,
+    maxAgeMs: 200,
+  });
+
+  try {
+    await cache.set("foo", "bar", { ttlMs: 100 });
+    await cache.set("fixed", "bar", { ttlMs: 100 });
+    await cache.expire("fixed", new Date(Date.now() + 100));
+
+    for (let i = 0; i < 3; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(await cache.get("foo")).toBe("bar");
+    }
+    expect(await cache.get("fixed")).toBeUndefined();
+
+    // Reads don't extend expiration beyond maxAgeMs since set
+    const meta = await cache.getWithMetadata("foo");
+    expect(meta!.expires!.getTime() - Date.now()).toBeLessThanOrEqual(50);
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("increment decrement", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+  });
+  const target = new SqliteCache({
+    database: ":memory:",
+  });
+
+  try {
+    expect(await cache.increment("hits")).toBe(1);
+    expect(await cache.increment("hits", 5)).toBe(6);
+    expect(await cache.decrement("hits", 2)).toBe(4);
+    expect(await cache.get("hits")).toBe(4);
+
+    // Concurrent increments are not lost
+    await Promise.all(
+      Array.from({ length: 20 }, () => cache.increment("concurrent"))
+    );
+    expect(await cache.get("concurrent")).toBe(20);
+
+    await cache.set("foo", "bar");
+    await expect(cache.increment("foo")).rejects.toThrow("not a counter");
+    expect(await cache.get("foo")).toBe("bar");
+
+    // Counters survive export and import
+    expect(
+      await target.import(cache.export({ format: "cbor" }), { format: "cbor" })
+    ).toBe(3);
+    expect(await target.increment("hits")).toBe(5);
+  } finally {
+    await cleanupCaches([cache, target]);
+  }
+});
+
+test("increment numbers stored by set", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+    compress: true,
+    compressionMinLength: 1,
+    encryption: { keys: { k: randomBytes(32) }, currentKeyId: "k" },
+  });
+
+  try {
+    expect(
+      await cache.setIfAbsent("limit", 0, { ttlMs: 100, tags: ["t"] })
+    ).toBe(true);
+    expect(await cache.increment("limit")).toBe(1);
+    expect(await cache.increment("limit", 2)).toBe(3);
+    expect(await cache.get("limit")).toBe(3);
+
+    await cache.set("float", 1.5);
+    expect(await cache.decrement("float")).toBe(0.5);
+
+    await cache.set("text", "1");
+    await expect(cache.increment("text")).rejects.toThrow("not a counter");
+
+    // Converted counter keeps expiration and tags
+    await cache.invalidateTag("t");
+    expect(await cache.get("limit")).toBeUndefined();
+    await cache.set("limit", 0, { ttlMs: 50 });
+    await cache.increment("limit");
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(await cache.get("limit")).toBeUndefined();
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("increment honors ttl of the counter", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+  });
+
+  try {
+    expect(await cache.increment("window", 1, { ttlMs: 100 })).toBe(1);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    // Existing counter keeps its expiration
+    expect(await cache.increment("window", 1, { ttlMs: 1000 })).toBe(2);
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(await cache.get("window")).toBeUndefined();
+
+    // Expired counter starts from zero
+    expect(await cache.increment("window", 1, { ttlMs: 100 })).toBe(1);
+
+    await cache.set("expired", "bar", { ttlMs: 10 });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(await cache.increment("expired")).toBe(1);
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("setIfAbsent replace", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+  });
+
+  try {
+    expect(await cache.replace("foo", "bar")).toBe(false);
+    expect(await cache.has("foo")).toBe(false);
+
+    expect(await cache.setIfAbsent("foo", "bar")).toBe(true);
+    expect(await cache.setIfAbsent("foo", "baz")).toBe(false);
+    expect(await cache.get("foo")).toBe("bar");
+
+    expect(await cache.replace("foo", "baz", { ttlMs: 10 })).toBe(true);
+    expect(await cache.get("foo")).toBe("baz");
+
+    // Expired items are absent
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(await cache.replace("foo", "qux")).toBe(false);
+    expect(await cache.setIfAbsent("foo", "qux")).toBe(true);
+    expect(await cache.get("foo")).toBe("qux");
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("compareAndSet with version from metadata", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+  });
+
+  try {
+    await cache.set("foo", 1);
+    const { version } = (await cache.getWithMetadata("foo"))!;
+
+    // Reads and touch don't change the version
+    await cache.get("foo");
+    await cache.touch("foo", 1000);
+    expect((await cache.getWithMetadata("foo"))!.version).toBe(version);
+
+    expect(await cache.compareAndSet("foo", 2, version)).toBe(true);
+    expect(await cache.compareAndSet("foo", 3, version)).toBe(false);
+    expect(await cache.get("foo")).toBe(2);
+
+    // Recreated item doesn't get version of the removed one
+    const current = (await cache.getWithMetadata("foo"))!.version;
+    await cache.delete("foo");
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await cache.set("foo", 4);
+    expect(await cache.compareAndSet("foo", 5, current)).toBe(false);
+    expect(await cache.compareAndSet("missing", 5, current)).toBe(false);
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("batched access times are flushed periodically and on close", async () => {
+  const con = openDatabase(":memory:");
+  const cache = new SqliteCache({
+    database: con,
+    accessFlushIntervalMs: 50,
+    evictionPolicy: "lfu",
+  });
+  const row = (key: string) =>
+    con
+      .prepare("SELECT lastAccess, accessCount FROM cache WHERE key = ?")
+      .get(key);
+
+  try {
+    await cache.set("foo", "bar");
+    await cache.set("baz", "qux");
+    const written = row("foo");
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    expect(await cache.get("foo")).toBe("bar");
+    expect(await cache.getMany(["foo", "missing"])).toEqual(["bar", undefined]);
+
+    // Reads don't write until the flush
+    expect(row("foo")).toEqual(written);
+    await new Promise((resolve) => setTimeout(resolve, 80));
+    expect(row("foo").lastAccess).toBeGreaterThan(written.lastAccess);
+    expect(row("foo").accessCount).toBe(2);
+
+    expect(await cache.get("baz")).toBe("qux");
+    await cache.close();
+    expect(row("baz").accessCount).toBe(1);
+  } finally {
+    await cleanupCaches([cache]);
+    con.close();
+  }
+});
+
+test("background cleanup doesn't flush batched access times", async () => {
+  const con = openDatabase(":memory:");
+  const opts = {
+    database: con,
+    accessFlushIntervalMs: 60000,
+    cleanupIntervalMs: 120,
+  };
+  const cache = new SqliteCache(opts);
+  const syncCache = new SqliteCacheSync(opts);
+  const lastAccess = (key: string) =>
+    con.prepare("SELECT lastAccess FROM cache WHERE key = ?").get(key)
+      .lastAccess;
+
+  try {
+    await cache.set("foo", "bar");
+    syncCache.set("baz", "qux");
+    const written = [lastAccess("foo"), lastAccess("baz")];
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    expect(await cache.get("foo")).toBe("bar");
+    expect(syncCache.get("baz")).toBe("qux");
+    await cache.set("other", 1);
+
+    // Several cleanup runs pass without writing the reads
+    await new Promise((resolve) => setTimeout(resolve, 400));
+    expect([lastAccess("foo"), lastAccess("baz")]).toEqual(written);
+  } finally {
+    await cleanupCaches([cache]);
+    syncCache.close();
+    con.close();
+  }
+});
+
+test("prune uses batched access times", async () => {
+  const opts = {
+    database: ":memory:",
+    accessFlushIntervalMs: 10000,
+    cleanupIntervalMs: false,
+    maxItems: 2,
+  } as const;
+  const cache = new SqliteCache(opts);
+  const syncCache = new SqliteCacheSync(opts);
+  const wait = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+  try {
+    await cache.set("a", 1);
+    syncCache.set("a", 1);
+    await wait();
+    await cache.set("b", 2);
+    syncCache.set("b", 2);
+    await wait();
+    expect(await cache.get("a")).toBe(1);
+    expect(syncCache.get("a")).toBe(1);
+    await wait();
+    await cache.set("c", 3);
+    syncCache.set("c", 3);
+
+    expect((await cache.prune()).evicted).toBe(1);
+    expect(await cache.get("a")).toBe(1);
+    expect(await cache.get("b")).toBeUndefined();
+    expect(syncCache.prune().evicted).toBe(1);
+    expect(syncCache.get("a")).toBe(1);
+    expect(syncCache.get("b")).toBeUndefined();
+  } finally {
+    await cleanupCaches([cache]);
+    syncCache.close();
+  }
+});
+
+test("prune with disabled background cleanup", async () => {
+  const cache = new SqliteCache({
+    database: ":memory:",
+    cleanupIntervalMs: false,
+    cleanupBatchSize: 2,
+    maxItems: 3,
+  });
+  const expired: string[] = [];
+  cache.on("expired", (e) => {
+    expired.push(...e.keys);
+  });
+
+  try {
+    for (let i = 0; i < 5; i++) {
+      await cache.set(`expired${i}`, i, { ttlMs: 1 });
+    }
+    for (let i = 0; i < 6; i++) {
+      await cache.set(`item${i}`, i);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    // Nothing is removed in the background
+    expect((await cache.stats()).items).toBe(11);
+
+    expect(await cache.prune()).toEqual({
+      expired: 5,
+      evicted: 3,
+      abandonedStreams: 0,
+      reclaimedBytes: 0,
+    });
+    expect(expired.sort()).toEqual([0, 1, 2, 3, 4].map((i) => `expired${i}`));
+    expect((await cache.stats()).items).toBe(3);
+    expect(await cache.prune()).toEqual({
+      expired: 0,
+      evicted: 0,
+      abandonedStreams: 0,
+      reclaimedBytes: 0,
+    });
+  } finally {
+    await cleanupCaches([cache]);
+  }
+});
+
+test("prune reclaims space with vacuum", async () => {
+  const dbPath = join(tmpdir(), randomUUID() + ".db");
+  const cache = new SqliteCache({
+    database: dbPath,
+    incrementalVacuum: true,
+  });
+  const syncPath = join(tmpdir(), randomUUID() + ".db");
+  const syncCache = new SqliteCacheSync({
+    database: syncPath,
+  });
+
+  try {
+    const value = randomBytes(100000);
+    for (let i = 0; i < 10; i++) {
+      await cache.set(`item${i}`, value);
+      syncCache.set(`item${i}`, value);
+    }
+    await cache.clear();
+    syncCache.clear();
+
+    expect((await cache.prune()).reclaimedBytes).toBeGreaterThan(900000);
+
+    // Without incremental vacuum the file shrinks only with full vacuum
+    expect(syncCache.prune().reclaimedBytes).toBe(0);
+    expect(syncCache.prune({ vacuum: "full" }).reclaimedBytes).toBeGreaterThan(
+      900000
+    );
+  } finally {
+    syncCache.close();
+    await cleanupCaches([cache], dbPath);
+    await unlink(syncPath);
+  }
+});
@@ -1,16 +1,79 @@
-import { gzip, gunzip } from "node:zlib";
+import {
+  createCipheriv,
+  createDecipheriv,
+  getRandomValues,
+  randomUUID,
+} from "node:crypto";
+import { EventEmitter } from "node:events";
+import { Readable, Transform } from "node:stream";
+import zlib from "node:zlib";
 import { promisify } from "node:util";
 import cbor from "cbor";
 import debounce from "debounce";
 import z from "zod";
 
 const COMPRESSION_MIN_LENGTH = 1024;
+const STREAM_CHUNK_SIZE = 1024 * 1024;
+// Chunks without an item are removed once no chunk was added to them for this long
+const ABANDONED_STREAM_MS = 10 * 60 * 1000;
+const LFU_HALF_LIFE_MS = 10 * 60 * 1000;
+// Pending access times are flushed early when this many keys were read since the last flush
+const MAX_PENDING_ACCESSES = 10000;
+// Flush interval of reads served by the memory cache when `accessFlushIntervalMs` is not set
+const MEMORY_ACCESS_FLUSH_INTERVAL_MS = 1000;
+const CLEANUP_INTERVAL_MS = 1000;
+const CLEANUP_BATCH_SIZE = 1000;
+// Current unix time in milliseconds for statements without `@now` parameter
+const sqlNow = "CAST((julianday('now') - 2440587.5) * 86400000 AS INTEGER)";
+// Serializer column of items written by `setStream`
+const STREAM_SERIALIZER = "stream";
+// Serializer column of items written by `increment`, their value is in the counter column
+const COUNTER_SERIALIZER = "counter";
 
-export interface SqliteCacheConfiguration {
+export interface SqliteCacheConfiguration<TData = unknown> {
   /**
    * Database file path or `:memory:` for in-memory database.
+   * Can also be an already open bun:sqlite or better-sqlite3 `Database` which is then shared with your application
+   * and not closed by `close`. bun:sqlite `Database` must be opened with `{ strict: true }`.
    */
-  readonly database: string;
+  readonly database: string | SqliteDatabaseConnection;
+
+  /**
+   * Journal mode of the database. Not changed for in-memory databases and shared connections unless set explicitly.
+   * WAL allows readers and a writer to work concurrently, which helps when multiple processes share the database.
+   * @default "WAL" for database files
+   */
+  readonly journalMode?:
+    | "WAL"
+    | "DELETE"
+    | "TRUNCATE"
+    | "PERSIST"
+    | "MEMORY"
+    | "OFF";
+
+  /**
+   * SQLite `synchronous` pragma. `NORMAL` is safe with WAL and much faster than `FULL`.
+   * @default undefined - SQLite default
+   */
+  readonly synchronous?: "OFF" | "NORMAL" | "FULL" | "EXTRA";
+
+  /**
+   * How long to wait for a lock held by another connection before failing with SQLITE_BUSY.
+   * @default 5000 - not changed for shared connections unless set explicitly
+   */
+  readonly busyTimeoutMs?: number;
+
+  /**
+   * Maximum number of bytes of the database file to access with memory-mapped I/O.
+   * @default undefined - SQLite default
+   */
+  readonly mmapSize?: number;
+
+  /**
+   * SQLite `cache_size` pragma. Positive value is number of pages, negative value is size in KiB.
+   * @default undefined - SQLite default
+   */
+  readonly cacheSize?: number;
 
   /**
    * Default maximum time-to-live in milliseconds. Cache entries will be evicted after this time.
@@ -19,6 +82,14 @@ export interface SqliteCacheConfiguration {
    */
   readonly defaultTtlMs?: number;
 
+  /**
+   * Default time in milliseconds for which items remain available as stale after their ttl passes.
+   * Stale items are served by `getWithStatus` and `getOrSet` which refreshes them with its loader.
+   * Can be overridden by `staleTtlMs` option in `set` method.
+   * @default undefined - items are evicted right after their ttl
+   */
+  readonly defaultStaleTtlMs?: number;
+
   /**
    * Maximum number of items in the cache. Cache entries with oldest access time will be evicted after this number is reached.
    * @default undefined - no limit
@@ -26,10 +97,143 @@ export interface SqliteCacheConfiguration {
   readonly maxItems?: number;
 
   /**
-   * Should we compress items on `set` with gzip. Old items will remain untouched so this flag can be switched at any time.
+   * Maximum total stored size of all items in bytes (after compression). Cache entries with oldest access time will be evicted until the total size fits.
+   * @default undefined - no limit
+   */
+  readonly maxSizeBytes?: number;
+
+  /**
+   * Maximum stored size of a single item in bytes (after compression).
+   * What happens with larger items on `set` is decided by `oversizedEntry`.
+   * @default undefined - no limit
+   */
+  readonly maxEntrySizeBytes?: number;
+
+  /**
+   * What to do when an item exceeds `maxEntrySizeBytes`. `skip` does not store the item and removes
+   * any previous value stored under the same key, `throw` rejects the `set` call with an error.
+   * @default "skip"
+   */
+  readonly oversizedEntry?: "skip" | "throw";
+
+  /**
+   * How often expired items are removed and `maxItems` and `maxSizeBytes` are enforced in the background.
+   * Writes also trigger the cleanup. With `false` items are removed only by `prune`.
+   * @default 1000
+   */
+  readonly cleanupIntervalMs?: number | false;
+
+  /**
+   * Maximum number of items removed by a single statement of the cleanup. `SqliteCache` yields to the event loop
+   * between batches so that removing many items doesn't block other work.
+   * @default 1000
+   */
+  readonly cleanupBatchSize?: number;
+
+  /**
+   * Switch the database to incremental auto vacuum and release free pages to the file system after each cleanup.
+   * Existing databases are converted with a one-time `VACUUM` when opened.
+   * @default false - free pages are reused by later writes but the file doesn't shrink
+   */
+  readonly incrementalVacuum?: boolean;
+
+  /**
+   * Should we compress items on `set` and with which codec. `true` means gzip.
+   * `zstd` is available only when supported by `node:zlib` of the runtime.
+   * Each item remembers its codec so this option can be switched at any time.
+   * @default false
+   */
+  readonly compress?: boolean | SqliteCacheCompression;
+
+  /**
+   * Compression level passed to the codec. Higher is smaller but slower.
+   * @default undefined - default level of the codec
+   */
+  readonly compressionLevel?: number;
+
+  /**
+   * Items smaller than this number of bytes are not compressed.
+   * @default 1024
+   */
+  readonly compressionMinLength?: number;
+
+  /**
+   * Which items are evicted first when the cache is over `maxItems` or `maxSizeBytes`.
+   * - `lru` least recently read or written
+   * - `lfu` least frequently read, access counts are halved every `lfuHalfLifeMs` without reads
+   *   and survive `set` of the same key. Items set within the last `lfuHalfLifeMs` are evicted
+   *   only after older items and in lru order among themselves
+   * - `fifo` least recently written
+   * @default "lru"
+   */
+  readonly evictionPolicy?: SqliteCacheEvictionPolicy;
+
+  /**
+   * Time in milliseconds after which access count of an item not read since is halved.
+   * @default 600000 - 10 minutes
+   */
+  readonly lfuHalfLifeMs?: number;
+
+  /**
+   * Each read of a fresh item moves its expiration by the ttl it was set with.
    * @default false
    */
-  readonly compress?: boolean;
+  readonly slidingTtl?: boolean;
+
+  /**
+   * With `slidingTtl`, reads never move expiration beyond this many milliseconds since the item was set.
+   * @default undefined - no limit
+   */
+  readonly maxAgeMs?: number;
+
+  /**
+   * Reads don't write to the database, access times, LFU counts and `slidingTtl` of read items are kept in memory
+   * and written in a single transaction every `accessFlushIntervalMs` and on `close`. Longer interval means
+   * fewer writes but eviction sees reads only after they are flushed and sliding expiration is extended late.
+   * @default undefined - every read updates the item right away
+   */
+  readonly accessFlushIntervalMs?: number;
+
+  /**
+   * Optional in-process cache of decoded values in front of SQLite. Reads are served from memory first,
+   * writes go to both and deletes invalidate both. Values are shared by reference so don't mutate them.
+   * Reads served from memory still update access time in SQLite for eviction and `slidingTtl`, always batched
+   * and written every `accessFlushIntervalMs`, or every second if not set, so `slidingTtl` needs a shorter
+   * interval than ttl of the items. Changes made by other processes are visible only after the item leaves
+   * the memory cache, which can be bounded with `ttlMs`. Not supported by `SqliteCacheSync`.
+   * @default undefined - disabled
+   */
+  readonly memoryCache?: SqliteCacheMemoryConfiguration;
+
+  /**
+   * Encrypt stored values with AES-256-GCM. Existing unencrypted items stay readable.
+   * @default undefined - values are stored in plaintext
+   */
+  readonly encryption?: SqliteCacheEncryptionConfiguration;
+
+  /**
+   * How values are converted to bytes. Either one of built-in serializers or custom implementation of `SqliteCacheSerializer`.
+   * Each item remembers which serializer wrote it so this option can be switched at any time as long as
+   * custom serializers used for old items are still configured. Names `stream` and `counter` are reserved.
+   * - `cbor` supports `Buffer`, `Date` and other types beyond JSON
+   * - `json` is faster for large plain objects
+   * - `raw` stores `Buffer` values as they are
+   * @default "cbor"
+   */
+  readonly serializer?: SqliteCacheSerializerName | SqliteCacheSerializer;
+
+  /**
+   * Zod schema decoded values are validated with, `get` can override it per call.
+   * Items which fail validation or can't be decoded are treated as missing and deleted.
+   * @default undefined - values are not validated
+   */
+  readonly schema?: z.ZodType<TData>;
+
+  /**
+   * Called with the validation or decoding error when an item is deleted because of `schema`, or because
+   * its value can't be decrypted.
+   */
+  readonly onInvalidValue?: (key: string, error: unknown) => void;
 
   /**
    * The name of the cache table in the database
@@ -38,217 +242,4254 @@ export interface SqliteCacheConfiguration {
   readonly cacheTableName?: string;
 }
 
-const configurationSchema = z.object({
-  database: z.string(),
-  defaultTtlMs: z.number().positive().optional(),
-  maxItems: z.number().positive().optional(),
-  compress: z.boolean().optional().default(false),
-  cacheTableName: z.string().optional().default("cache"),
-});
+export type SqliteCacheCompression = "gzip" | "deflate" | "brotli" | "zstd";
+
+export type SqliteCacheEvictionPolicy = "lru" | "lfu" | "fifo";
+
+export type SqliteCacheSerializerName = "cbor" | "json" | "raw";
+
+export interface SqliteCacheSerializer {
+  /**
+   * Unique name stored with each item so it can be decoded with the same serializer.
+   */
+  readonly name: string;
+
+  encode(value: unknown): Buffer;
+
+  decode(buffer: Buffer): unknown;
+}
+
+export const serializers: Record<
+  SqliteCacheSerializerName,
+  SqliteCacheSerializer
+> = {
+  cbor: {
+    name: "cbor",
+    encode: (value) => cbor.encode(value),
+    decode: (buffer) => cbor.decode(buffer),
+  },
+  json: {
+    name: "json",
+    // JSON can't represent undefined so it is stored as an empty buffer
+    encode: (value) =>
+      value === undefined
+        ? Buffer.alloc(0)
+        : Buffer.from(JSON.stringify(value)),
+    decode: (buffer) =>
+      buffer.length === 0 ? undefined : JSON.parse(buffer.toString()),
+  },
+  raw: {
+    name: "raw",
+    encode: (value) => {
+      if (!(value instanceof Uint8Array)) {
+        throw new Error("Raw serializer supports only Buffer values");
+      }
+
+      return Buffer.from(value);
+    },
+    // bun:sqlite returns Uint8Array for blobs
+    decode: (buffer) =>
+      Buffer.from(buffer.buffer, buffer.byteOffset, buffer.byteLength),
+  },
+};
+
+export interface SqliteCacheMemoryConfiguration {
+  /**
+   * Maximum number of items kept in memory, least recently used are evicted first.
+   * @default 1000
+   */
+  readonly maxItems?: number;
+
+  /**
+   * Maximum total stored size in bytes of items kept in memory.
+   * @default undefined - no limit
+   */
+  readonly maxSizeBytes?: number;
+
+  /**
+   * Maximum time in milliseconds items are kept in memory. Items never outlive their ttl in SQLite.
+   * @default undefined - until the item expires in SQLite
+   */
+  readonly ttlMs?: number;
+}
+
+export interface SqliteCacheEncryptionConfiguration {
+  /**
+   * 32 byte keys by their id. Id of the key is stored with each item so that old keys
+   * can be kept here for decryption after rotating `currentKeyId`.
+   */
+  readonly keys: Readonly<Record<string, Buffer>>;
+
+  /**
+   * Id of the key new items are encrypted with.
+   */
+  readonly currentKeyId: string;
+}
+
+/**
+ * Already open bun:sqlite or better-sqlite3 `Database`.
+ */
+export interface SqliteDatabaseConnection {
+  prepare(sql: string): any;
+  exec(sql: string): any;
+  close(): any;
+}
+
+export interface SqliteCacheSetOptions {
+  /**
+   * Time-to-live in milliseconds for this item. Overrides `defaultTtlMs`.
+   */
+  readonly ttlMs?: number;
+
+  /**
+   * Time in milliseconds for which this item remains available as stale after `ttlMs` passes.
+   * Overrides `defaultStaleTtlMs`.
+   */
+  readonly staleTtlMs?: number;
+
+  /**
+   * Should this item be compressed and with which codec. Overrides `compress`.
+   */
+  readonly compress?: boolean | SqliteCacheCompression;
+
+  /**
+   * Compression level for this item. Overrides `compressionLevel`.
+   */
+  readonly compressionLevel?: number;
+
+  /**
+   * Minimum length of this item to be compressed. Overrides `compressionMinLength`.
+   */
+  readonly compressionMinLength?: number;
+
+  /**
+   * Tags of this item which can be used to invalidate it with `invalidateTag`.
+   * Replaces tags of the previous item stored under the same key.
+   */
+  readonly tags?: readonly string[];
+}
+
+export interface SqliteCacheIncrementOptions {
+  /**
+   * Time-to-live in milliseconds of a new counter. Overrides `defaultTtlMs`.
+   * Existing counters keep their expiration so that they can count within a fixed window.
+   */
+  readonly ttlMs?: number;
+}
+
+export interface SqliteCacheSetStreamOptions extends SqliteCacheSetOptions {
+  /**
+   * Size in bytes of chunks the stream is stored in, after compression.
+   * @default 1048576
+   */
+  readonly chunkSize?: number;
+}
+
+export interface SqliteCacheGetOptions<T> {
+  /**
+   * Zod schema the value is validated with. Overrides `schema` of the cache.
+   */
+  readonly schema?: z.ZodType<T>;
+}
+
+export interface SqliteCacheNamespaceOptions {
+  /**
+   * Default ttl of items set through the namespace. Overrides `defaultTtlMs` of the cache.
+   */
+  readonly defaultTtlMs?: number;
+
+  /**
+   * Default stale period of items set through the namespace. Overrides `defaultStaleTtlMs` of the cache.
+   */
+  readonly defaultStaleTtlMs?: number;
+
+  /**
+   * Maximum number of items in the namespace, least recently used are evicted first.
+   * @default undefined - limited only by the cache
+   */
+  readonly maxItems?: number;
+
+  /**
+   * Maximum total stored size of items in the namespace, least recently used are evicted first.
+   * @default undefined - limited only by the cache
+   */
+  readonly maxSizeBytes?: number;
+}
+
+export interface SqliteCacheGetOrSetOptions extends SqliteCacheSetOptions {
+  /**
+   * When the item is stale, return it right away and refresh it with `loader` in the background.
+   * Otherwise the caller waits for `loader` and gets the stale item only if `loader` throws.
+   * @default true
+   */
+  readonly backgroundRefresh?: boolean;
+}
+
+export interface SqliteCacheGetResult<T> {
+  readonly value: T;
+
+  /**
+   * True when the item is past its ttl but still within its stale period.
+   */
+  readonly stale: boolean;
+}
+
+export interface SqliteCacheMetadata<T> extends SqliteCacheGetResult<T> {
+  /**
+   * Time after which the item is removed, including its stale period.
+   */
+  readonly expires: Date | undefined;
+
+  /**
+   * Time after which the item becomes stale, undefined when it has no stale period.
+   */
+  readonly staleAt: Date | undefined;
+
+  /**
+   * Last access time before this read.
+   */
+  readonly lastAccess: Date;
+
+  /**
+   * Stored size in bytes after compression.
+   */
+  readonly size: number;
+
+  /**
+   * Codec the item is compressed with or false when it's not compressed.
+   */
+  readonly compressed: SqliteCacheCompression | false;
+
+  readonly serializer: string;
+
+  /**
+   * Id of the key the item is encrypted with or undefined when it's not encrypted.
+   */
+  readonly encryptionKeyId: string | undefined;
+
+  /**
+   * Changes with every write of the item, pass it to `compareAndSet` to update the item only if it wasn't changed meanwhile.
+   */
+  readonly version: number;
+}
+
+export interface SqliteCachePruneOptions {
+  /**
+   * Reclaim space of removed items. `incremental` releases free pages and needs `incrementalVacuum`,
+   * `full` rebuilds the whole database file with `VACUUM` which blocks other connections meanwhile.
+   * @default "incremental" with `incrementalVacuum`, otherwise false
+   */
+  readonly vacuum?: "incremental" | "full" | false;
+}
+
+export interface SqliteCachePruneResult {
+  /**
+   * Number of items removed after their expiration.
+   */
+  readonly expired: number;
+
+  /**
+   * Number of items evicted because of `maxItems` or `maxSizeBytes` of the cache or its namespaces.
+   */
+  readonly evicted: number;
+
+  /**
+   * Number of `setStream` calls which were interrupted, for example by a crash, whose chunks were removed.
+   */
+  readonly abandonedStreams: number;
+
+  /**
+   * Bytes by which the database file shrank with vacuum.
+   */
+  readonly reclaimedBytes: number;
+}
+
+export interface SqliteCacheScanOptions {
+  /**
+   * Only items with keys starting with this prefix.
+   */
+  readonly prefix?: string;
+
+  /**
+   * Only items with keys matching this pattern, syntax is decided by `patternSyntax`.
+   */
+  readonly pattern?: string;
+
+  /**
+   * `glob` is case sensitive with `*`, `?` and `[...]` wildcards, `like` is case insensitive
+   * with `%` and `_` wildcards which can be escaped with `\`.
+   * @default "glob"
+   */
+  readonly patternSyntax?: "glob" | "like";
+
+  /**
+   * Number of items loaded from the database at once.
+   * @default 100
+   */
+  readonly batchSize?: number;
+}
+
+export interface SqliteCacheStats {
+  readonly cacheTableName: string;
+
+  /**
+   * Reads which returned a fresh item.
+   */
+  readonly hits: number;
+
+  /**
+   * Reads of keys which are not in the cache.
+   */
+  readonly misses: number;
+
+  /**
+   * Reads of items past their ttl, including stale items.
+   */
+  readonly expired: number;
+
+  readonly sets: number;
+
+  /**
+   * Items removed by `delete`, `deleteMany`, `invalidateTags` and `clear`.
+   */
+  readonly deletes: number;
+
+  /**
+   * Items removed by background cleanup after their expiration.
+   */
+  readonly ttlEvictions: number;
+
+  /**
+   * Items removed by background cleanup because of `maxItems` or `maxSizeBytes`.
+   */
+  readonly lruEvictions: number;
+
+  /**
+   * Current number of items in the cache, including expired items which were not cleaned up yet.
+   */
+  readonly items: number;
+
+  /**
+   * Current stored size of all items in bytes.
+   */
+  readonly sizeBytes: number;
+}
+
+export interface SqliteCacheEvent<TReason extends string> {
+  readonly keys: readonly string[];
+  readonly reason: TReason;
+}
+
+export interface SqliteCacheEvents {
+  set: SqliteCacheEvent<"set">;
+  delete: SqliteCacheEvent<"delete" | "tag" | "oversized" | "invalid">;
+  clear: SqliteCacheEvent<"clear">;
+  expired: SqliteCacheEvent<"ttl">;
+  evicted: SqliteCacheEvent<"maxItems" | "maxSizeBytes">;
+}
+
+export type SqliteCacheEventListener<E extends keyof SqliteCacheEvents> = (
+  event: SqliteCacheEvents[E]
+) => unknown;
+
+type SqliteCacheCounters = {
+  -readonly [K in Exclude<
+    keyof SqliteCacheStats,
+    "cacheTableName" | "items" | "sizeBytes"
+  >]: number;
+};
+
+export interface SqliteCacheSetManyEntry<T> extends SqliteCacheSetOptions {
+  readonly key: string;
+  readonly value: T;
+}
+
+/**
+ * `ndjson` is one JSON object per line with base64 encoded value, `cbor` is a sequence of CBOR items.
+ */
+export type SqliteCacheExportFormat = "ndjson" | "cbor";
+
+export interface SqliteCacheExportOptions {
+  /**
+   * @default "ndjson"
+   */
+  readonly format?: SqliteCacheExportFormat;
+}
+
+export interface SqliteCacheImportOptions {
+  /**
+   * Format of the stream created by `export`.
+   * @default "ndjson"
+   */
+  readonly format?: SqliteCacheExportFormat;
+
+  /**
+   * Replace items which already exist in the cache, otherwise they are kept.
+   * @default false
+   */
+  readonly overwrite?: boolean;
+}
+
+/**
+ * Item written by `export` and read by `import`.
+ */
+export interface SqliteCacheExportRecord {
+  readonly key: string;
+
+  /**
+   * Value as stored in the database, serialized and possibly compressed. Counters are written as a decimal number.
+   */
+  readonly value: Buffer;
+
+  readonly compressed: SqliteCacheCompression | false;
+
+  readonly serializer: string;
+
+  /**
+   * Id of the encryption key, value can be imported only by a cache with the same key.
+   */
+  readonly encryptionKeyId: string | null;
+
+  /**
+   * Milliseconds until the item expires, null when it never expires.
+   */
+  readonly expiresInMs: number | null;
+
+  /**
+   * Milliseconds until the item becomes stale, null when it has no stale period.
+   */
+  readonly staleInMs: number | null;
+
+  readonly tags: readonly string[];
+
+  /**
+   * Number of chunk records of a streamed item which follow this record, its own value is empty.
+   */
+  readonly chunks?: number;
+}
+
+/**
+ * Chunk of a streamed item written by `export` after the record of the item.
+ */
+export interface SqliteCacheExportChunk {
+  readonly key: string;
+
+  /**
+   * Index of the chunk within the item.
+   */
+  readonly chunk: number;
+
+  /**
+   * Chunk as stored in the database, possibly compressed.
+   */
+  readonly value: Buffer;
+}
+
+const configurationSchema = z.object({
+  database: z.union([
+    z.string(),
+    z.custom<SqliteDatabaseConnection>(
+      (value: any) =>
+        typeof value?.prepare === "function" &&
+        typeof value?.exec === "function",
+      "Database must be a path or an open bun:sqlite or better-sqlite3 Database"
+    ),
+  ]),
+  journalMode: z
+    .enum(["WAL", "DELETE", "TRUNCATE", "PERSIST", "MEMORY", "OFF"])
+    .optional(),
+  synchronous: z.enum(["OFF", "NORMAL", "FULL", "EXTRA"]).optional(),
+  busyTimeoutMs: z.number().int().nonnegative().optional(),
+  mmapSize: z.number().int().nonnegative().optional(),
+  cacheSize: z.number().int().optional(),
+  defaultTtlMs: z.number().positive().optional(),
+  defaultStaleTtlMs: z.number().positive().optional(),
+  maxItems: z.number().positive().optional(),
+  maxSizeBytes: z.number().positive().optional(),
+  maxEntrySizeBytes: z.number().positive().optional(),
+  oversizedEntry: z.enum(["skip", "throw"]).optional().default("skip"),
+  cleanupIntervalMs: z
+    .union([z.number().int().positive(), z.literal(false)])
+    .optional(),
+  cleanupBatchSize: z.number().int().positive().optional(),
+  incrementalVacuum: z.boolean().optional(),
+  compress: z
+    .union([z.boolean(), z.enum(["gzip", "deflate", "brotli", "zstd"])])
+    .optional()
+    .default(false),
+  compressionLevel: z.number().int().optional(),
+  compressionMinLength: z.number().nonnegative().optional(),
+  encryption: z
+    .object({
+      keys: z.record(
+        z.string(),
+        z.custom<Buffer>(
+          (value) => Buffer.isBuffer(value) && value.length === 32,
+          "Encryption keys must be 32 byte Buffers"
+        )
+      ),
+      currentKeyId: z.string(),
+    })
+    .optional(),
+  evictionPolicy: z.enum(["lru", "lfu", "fifo"]).optional(),
+  lfuHalfLifeMs: z.number().int().positive().optional(),
+  slidingTtl: z.boolean().optional(),
+  maxAgeMs: z.number().int().positive().optional(),
+  accessFlushIntervalMs: z.number().int().positive().optional(),
+  memoryCache: z
+    .object({
+      maxItems: z.number().positive().optional(),
+      maxSizeBytes: z.number().positive().optional(),
+      ttlMs: z.number().positive().optional(),
+    })
+    .optional(),
+  serializer: z
+    .union([
+      z.enum(["cbor", "json", "raw"]),
+      z
+        .custom<SqliteCacheSerializer>(
+          (value: any) =>
+            typeof value?.name === "string" &&
+            typeof value?.encode === "function" &&
+            typeof value?.decode === "function",
+          "Serializer must have name, encode and decode"
+        )
+        // Names of the serializer column marking streamed items and counters
+        .refine(
+          (value) =>
+            value.name !== STREAM_SERIALIZER &&
+            value.name !== COUNTER_SERIALIZER,
+          `Serializer names "${STREAM_SERIALIZER}" and "${COUNTER_SERIALIZER}" are reserved`
+        ),
+    ])
+    .optional()
+    .default("cbor"),
+  schema: z
+    .custom<z.ZodType>(
+      (value: any) => typeof value?.safeParse === "function",
+      "Schema must be a zod schema"
+    )
+    .optional(),
+  onInvalidValue: z
+    .custom<(key: string, error: unknown) => void>(
+      (value) => typeof value === "function",
+      "onInvalidValue must be a function"
+    )
+    .optional(),
+  cacheTableName: z.string().optional().default("cache"),
+});
+
+// Define types for statement parameters and results
+// Buffer is compatible with Uint8Array for SQLite bindings
+type SQLValue = string | number | bigint | boolean | Uint8Array | Buffer | null;
+
+interface GetStatementParams extends Record<string, SQLValue> {
+  key: string;
+  now: number;
+}
+
+interface GetStatementResult {
+  value: Buffer;
+  compressed: number;
+  expires: number | null;
+  staleAt: number | null;
+  serializer: string | null;
+  keyId: string | null;
+  size: number;
+  counter: number | null;
+}
+
+interface PeekStatementResult extends GetStatementResult {
+  lastAccess: number;
+  version: number;
+}
+
+interface AccessStatementParams extends Record<string, SQLValue> {
+  key: string;
+  now: number;
+  count: number;
+}
+
+interface TouchStatementParams extends Record<string, SQLValue> {
+  key: string;
+  expires: number | null;
+  now: number;
+}
+
+interface SetStatementParams extends Record<string, SQLValue> {
+  key: string;
+  value: Buffer;
+  expires: number | null;
+  staleAt: number | null;
+  now: number;
+  compressed: number;
+  size: number;
+  serializer: string;
+  keyId: string | null;
+  ttl: number | null;
+  counter: number | null;
+}
+
+interface IncrementStatementParams extends Record<string, SQLValue> {
+  key: string;
+  by: number;
+  expires: number | null;
+  ttl: number | null;
+  now: number;
+}
+
+interface ToCounterStatementParams extends Record<string, SQLValue> {
+  key: string;
+  counter: number;
+  now: number;
+}
+
+interface KeyResult {
+  key: string;
+}
+
+interface ScanStatementParams extends Record<string, SQLValue> {
+  after: string | null;
+  now: number;
+  prefix: string | null;
+  glob: string | null;
+  like: string | null;
+  limit: number;
+}
+
+interface ScanStatementResult extends GetStatementResult {
+  key: string;
+}
+
+interface ExportStatementParams extends Record<string, SQLValue> {
+  after: string | null;
+  now: number;
+  limit: number;
+}
+
+interface ExportStatementResult {
+  key: string;
+  value: Buffer;
+  compressed: number;
+  expires: number | null;
+  staleAt: number | null;
+  serializer: string | null;
+  keyId: string | null;
+  counter: number | null;
+  size: number;
+  // Number of chunks of streamed items
+  chunks: number | null;
+  // JSON array
+  tags: string;
+}
+
+interface DeleteMatchingStatementParams extends Record<string, SQLValue> {
+  prefix: string | null;
+  glob: string | null;
+  like: string | null;
+}
+
+interface SizeStatementResult {
+  items: number;
+  sizeBytes: number;
+}
+
+interface DeleteStatementParams extends Record<string, SQLValue> {
+  key: string;
+}
+
+interface ChunksStatementParams extends Record<string, SQLValue> {
+  id: Buffer;
+  from: number;
+  limit: number;
+}
+
+interface ChunkResult {
+  idx: number;
+  data: Buffer;
+}
+
+interface InsertChunkStatementParams extends Record<string, SQLValue> {
+  id: Buffer;
+  idx: number;
+  data: Buffer;
+  now: number;
+}
+
+interface AbandonedChunksStatementParams extends Record<string, SQLValue> {
+  before: number;
+  limit: number;
+}
+
+interface DeleteChunksStatementParams extends Record<string, SQLValue> {
+  id: Buffer;
+}
+
+interface TagStatementParams extends Record<string, SQLValue> {
+  key: string;
+  tag: string;
+}
+
+interface InvalidateTagStatementParams extends Record<string, SQLValue> {
+  tag: string;
+}
+
+interface CleanupExpiredStatementParams extends Record<string, SQLValue> {
+  now: number;
+  limit: number;
+}
+
+interface CleanupLruStatementParams extends Record<string, SQLValue> {
+  maxItems: number;
+  prefix: string | null;
+  limit: number;
+}
+
+interface CleanupSizeStatementParams extends Record<string, SQLValue> {
+  maxSizeBytes: number;
+  prefix: string | null;
+  limit: number;
+}
+
+function escapeIdentifier(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Adds a column to an existing table created by an older version of this library.
+ * Returns true when the column was added.
+ */
+function addColumnIfMissing(
+  db: any,
+  escapedTableName: string,
+  column: string,
+  definition: string
+): boolean {
+  const columns = db
+    .prepare(`PRAGMA table_info(${escapedTableName})`)
+    .all() as { name: string }[];
+
+  if (columns.some((c) => c.name === column)) {
+    return false;
+  }
+
+  db.exec(`ALTER TABLE ${escapedTableName} ADD COLUMN ${column} ${definition}`);
+  return true;
+}
+
+const SCHEMA_TABLE_NAME = "cache_sqlite_lru_ttl_schema";
+
+/**
+ * Migrations of the cache table. Migration at index `i` upgrades schema from version `i` to `i + 1`.
+ * Migrations must tolerate tables created by releases before schema versioning, which may already
+ * contain some of the columns.
+ */
+const migrations: ((db: any, cacheTableName: string) => void)[] = [
+  // 1: cache table and indexes
+  (db, cacheTableName) => {
+    const escapedTableName = escapeIdentifier(cacheTableName);
+
+    db.exec(`CREATE TABLE IF NOT EXISTS ${escapedTableName} (
+      key TEXT PRIMARY KEY,
+      value BLOB,
+      expires INT,
+      lastAccess INT,
+      compressed BOOLEAN
+    )`);
+
+    db.exec(
+      `CREATE UNIQUE INDEX IF NOT EXISTS key ON ${escapedTableName} (key)`
+    );
+    db.exec(
+      `CREATE INDEX IF NOT EXISTS expires ON ${escapedTableName} (expires)`
+    );
+    db.exec(
+      `CREATE INDEX IF NOT EXISTS lastAccess ON ${escapedTableName} (lastAccess)`
+    );
+  },
+  // 2: stored size of items
+  (db, cacheTableName) => {
+    const escapedTableName = escapeIdentifier(cacheTableName);
+
+    if (addColumnIfMissing(db, escapedTableName, "size", "INT")) {
+      db.exec(`UPDATE ${escapedTableName} SET size = length(value)`);
+    }
+  },
+  // 3: tags
+  (db, cacheTableName) => {
+    const escapedTableName = escapeIdentifier(cacheTableName);
+    const escapedTagsTableName = escapeIdentifier(`${cacheTableName}_tags`);
+
+    // Tags live in a companion table and are removed together with their item,
+    // no matter if it was deleted, expired or evicted
+    db.exec(`CREATE TABLE IF NOT EXISTS ${escapedTagsTableName} (
+      tag TEXT NOT NULL,
+      key TEXT NOT NULL,
+      PRIMARY KEY (tag, key)
+    )`);
+    db.exec(
+      `CREATE INDEX IF NOT EXISTS ${escapeIdentifier(
+        `${cacheTableName}_tags_key`
+      )} ON ${escapedTagsTableName} (key)`
+    );
+    db.exec(`CREATE TRIGGER IF NOT EXISTS ${escapeIdentifier(
+      `${cacheTableName}_tags_cleanup`
+    )}
+      AFTER DELETE ON ${escapedTableName}
+      BEGIN
+        DELETE FROM ${escapedTagsTableName} WHERE key = OLD.key;
+      END`);
+  },
+  // 4: stale items
+  (db, cacheTableName) => {
+    addColumnIfMissing(db, escapeIdentifier(cacheTableName), "staleAt", "INT");
+  },
+  // 5: serializers, items without serializer were written with cbor
+  (db, cacheTableName) => {
+    addColumnIfMissing(
+      db,
+      escapeIdentifier(cacheTableName),
+      "serializer",
+      "TEXT"
+    );
+  },
+  // 6: encryption, items without key id are not encrypted
+  (db, cacheTableName) => {
+    addColumnIfMissing(db, escapeIdentifier(cacheTableName), "keyId", "TEXT");
+  },
+  // 7: streamed items, value of the item is id of its chunks
+  (db, cacheTableName) => {
+    const escapedChunksTableName = escapeIdentifier(`${cacheTableName}_chunks`);
+    db.exec(`CREATE TABLE IF NOT EXISTS ${escapedChunksTableName} (
+      id BLOB NOT NULL,
+      idx INT NOT NULL,
+      data BLOB NOT NULL,
+      PRIMARY KEY (id, idx)
+    )`);
+    db.exec(`CREATE TRIGGER IF NOT EXISTS ${escapeIdentifier(
+      `${cacheTableName}_chunks_cleanup`
+    )}
+      AFTER DELETE ON ${escapeIdentifier(cacheTableName)}
+      WHEN OLD.serializer = '${STREAM_SERIALIZER}'
+      BEGIN
+        DELETE FROM ${escapedChunksTableName} WHERE id = OLD.value;
+      END`);
+  },
+  // 8: eviction policies and sliding ttl, items without created time use lastAccess instead
+  (db, cacheTableName) => {
+    const escapedTableName = escapeIdentifier(cacheTableName);
+    addColumnIfMissing(db, escapedTableName, "created", "INT");
+    addColumnIfMissing(
+      db,
+      escapedTableName,
+      "accessCount",
+      "INT NOT NULL DEFAULT 0"
+    );
+    addColumnIfMissing(db, escapedTableName, "ttl", "INT");
+  },
+  // 9: counters and versions for conditional writes
+  (db, cacheTableName) => {
+    const escapedTableName = escapeIdentifier(cacheTableName);
+    addColumnIfMissing(db, escapedTableName, "counter", "INT");
+    addColumnIfMissing(
+      db,
+      escapedTableName,
+      "version",
+      "INT NOT NULL DEFAULT 0"
+    );
+  },
+  // 10: time when chunks were written so that chunks of interrupted streams can be removed
+  (db, cacheTableName) => {
+    addColumnIfMissing(
+      db,
+      escapeIdentifier(`${cacheTableName}_chunks`),
+      "created",
+      "INT"
+    );
+    db.exec(`CREATE INDEX IF NOT EXISTS ${escapeIdentifier(
+      `${cacheTableName}_streams`
+    )}
+      ON ${escapeIdentifier(cacheTableName)} (value)
+      WHERE serializer = '${STREAM_SERIALIZER}'`);
+  },
+];
+
+/**
+ * Version of the cache table schema created by this release.
+ */
+export const SCHEMA_VERSION = migrations.length;
+
+/**
+ * Creates or upgrades the cache table to `SCHEMA_VERSION` in a single transaction.
+ * Throws when the table was created by a newer, incompatible release.
+ */
+function migrateSqliteCache(db: any, cacheTableName: string) {
+  const escapedSchemaTableName = escapeIdentifier(SCHEMA_TABLE_NAME);
+
+  // Immediate transaction prevents other processes from migrating the same table concurrently
+  db.transaction(() => {
+    db.exec(`CREATE TABLE IF NOT EXISTS ${escapedSchemaTableName} (
+      tableName TEXT PRIMARY KEY,
+      version INT NOT NULL
+    )`);
+
+    const row = db
+      .prepare(
+        `SELECT version FROM ${escapedSchemaTableName} WHERE tableName = ?`
+      )
+      .get(cacheTableName) as { version: number } | undefined | null;
+    const version = row?.version ?? 0;
+
+    if (version > SCHEMA_VERSION) {
+      throw new Error(
+        `Cache table "${cacheTableName}" has schema version ${version} but this version of cache-sqlite-lru-ttl supports only up to ${SCHEMA_VERSION}, please upgrade cache-sqlite-lru-ttl`
+      );
+    }
+
+    if (version === SCHEMA_VERSION) {
+      return;
+    }
+
+    for (const migration of migrations.slice(version)) {
+      migration(db, cacheTableName);
+    }
+
+    db.prepare(
+      `INSERT OR REPLACE INTO ${escapedSchemaTableName} (tableName, version) VALUES (?, ?)`
+    ).run(cacheTableName, SCHEMA_VERSION);
+  }).immediate();
+}
+
+type DatabaseType = "bun" | "better-sqlite3";
+
+interface DatabaseDriver {
+  Database: any;
+  type: DatabaseType;
+}
+
+async function getDatabase(): Promise<DatabaseDriver> {
+  try {
+    const { default: Database } = await import("bun:sqlite");
+    return { Database, type: "bun" };
+  } catch (error) {
+    const Database = (await import("better-sqlite3")).default;
+    return { Database, type: "better-sqlite3" };
+  }
+}
+
+function getDatabaseSync(): DatabaseDriver {
+  try {
+    const { Database } = require("bun:sqlite");
+    return { Database, type: "bun" };
+  } catch (error) {
+    const Database = require("better-sqlite3");
+    return { Database, type: "better-sqlite3" };
+  }
+}
+
+async function initSqliteCache(configuration: SqliteCacheConfiguration) {
+  return openSqliteCache(
+    typeof configuration.database === "string"
+      ? await getDatabase()
+      : undefined,
+    configuration
+  );
+}
+
+/**
+ * Opens connection to the database or uses the connection from configuration.
+ */
+function connect(
+  driver: DatabaseDriver | undefined,
+  configuration: SqliteCacheConfiguration
+): { db: any; type: DatabaseType; ownsConnection: boolean } {
+  const { database } = configuration;
+
+  if (typeof database !== "string") {
+    // Only better-sqlite3 has pragma method
+    const type =
+      typeof (database as any).pragma === "function" ? "better-sqlite3" : "bun";
+    return { db: database, type, ownsConnection: false };
+  }
+
+  const { Database, type } = driver!;
+  // better-sqlite3 doesn't support strict mode option
+  const db =
+    type === "bun"
+      ? new Database(database, { strict: true })
+      : new Database(database);
+
+  return { db, type, ownsConnection: true };
+}
+
+function configureConnection(
+  db: any,
+  ownsConnection: boolean,
+  configuration: SqliteCacheConfiguration
+) {
+  const inMemory =
+    configuration.database === ":memory:" || configuration.database === "";
+  const busyTimeoutMs =
+    configuration.busyTimeoutMs ?? (ownsConnection ? 5000 : undefined);
+  const journalMode =
+    configuration.journalMode ??
+    (ownsConnection && !inMemory ? "WAL" : undefined);
+
+  // Busy timeout goes first because changing journal mode needs a lock
+  if (busyTimeoutMs !== undefined) {
+    db.exec(`PRAGMA busy_timeout = ${busyTimeoutMs}`);
+  }
+  if (journalMode !== undefined) {
+    db.exec(`PRAGMA journal_mode = ${journalMode}`);
+  }
+  if (configuration.synchronous !== undefined) {
+    db.exec(`PRAGMA synchronous = ${configuration.synchronous}`);
+  }
+  if (configuration.mmapSize !== undefined) {
+    db.exec(`PRAGMA mmap_size = ${configuration.mmapSize}`);
+  }
+  if (configuration.cacheSize !== undefined) {
+    db.exec(`PRAGMA cache_size = ${configuration.cacheSize}`);
+  }
+  if (configuration.incrementalVacuum) {
+    db.exec("PRAGMA auto_vacuum = INCREMENTAL");
+    // Databases which already contain tables switch only after VACUUM
+    const { auto_vacuum } = db.prepare("PRAGMA auto_vacuum").get();
+    if (auto_vacuum !== 2) {
+      db.exec("VACUUM");
+    }
+  }
+}
+
+function openSqliteCache(
+  driver: DatabaseDriver | undefined,
+  configuration: SqliteCacheConfiguration
+) {
+  const { db, type, ownsConnection } = connect(driver, configuration);
+  const cacheTableName = configuration.cacheTableName ?? "cache";
+  const escapedTableName = escapeIdentifier(cacheTableName);
+  const escapedTagsTableName = escapeIdentifier(`${cacheTableName}_tags`);
+  const escapedChunksTableName = escapeIdentifier(`${cacheTableName}_chunks`);
+
+  try {
+    configureConnection(db, ownsConnection, configuration);
+    migrateSqliteCache(db, cacheTableName);
+  } catch (ex) {
+    if (ownsConnection) {
+      db.close();
+    }
+    throw ex;
+  }
+
+  const lfuHalfLifeMs = configuration.lfuHalfLifeMs ?? LFU_HALF_LIFE_MS;
+  // Items are evicted in ascending order
+  const evictionOrder = (direction: "ASC" | "DESC") => {
+    switch (configuration.evictionPolicy ?? "lru") {
+      case "lru":
+        return `lastAccess ${direction}, key ${direction}`;
+      case "lfu":
+        // Items set within the last half-life go after older items and among themselves by last access,
+        // so that new items get a chance to be read. Older items by access count aged since last read,
+        // same as it would be after a read now
+        return `(COALESCE(created, lastAccess) > ${sqlNow} - ${lfuHalfLifeMs}) ${direction},
+          CASE
+            WHEN COALESCE(created, lastAccess) > ${sqlNow} - ${lfuHalfLifeMs} THEN 0
+            ELSE accessCount >> MAX(0, (${sqlNow} - lastAccess) / ${lfuHalfLifeMs})
+          END ${direction},
+          lastAccess ${direction}, key ${direction}`;
+      case "fifo":
+        return `COALESCE(created, lastAccess) ${direction}, key ${direction}`;
+    }
+  };
+  // Fresh items are extended by their ttl keeping length of the stale period, up to maxAgeMs since set
+  const maxAge = (expression: string) =>
+    configuration.maxAgeMs
+      ? `MIN(${expression}, COALESCE(created, lastAccess) + ${configuration.maxAgeMs})`
+      : expression;
+  const slidingTtl = configuration.slidingTtl
+    ? `, staleAt = CASE
+          WHEN ttl IS NULL OR staleAt IS NULL OR staleAt <= @now THEN staleAt
+          ELSE ${maxAge("@now + ttl")}
+        END,
+        expires = CASE
+          WHEN ttl IS NULL OR staleAt <= @now THEN expires
+          ELSE ${maxAge("@now + ttl")} + COALESCE(expires - staleAt, 0)
+        END`
+    : "";
+  const prefixCondition = `(@prefix IS NULL OR substr(key, 1, length(@prefix)) = @prefix)`;
+  const matchCondition = `${prefixCondition}
+    AND (@glob IS NULL OR key GLOB @glob)
+    AND (@like IS NULL OR key LIKE @like ESCAPE '\\')`;
+  const scanCondition = `(@after IS NULL OR key > @after)
+    AND (expires > @now OR expires IS NULL)
+    AND (staleAt > @now OR staleAt IS NULL)
+    AND ${matchCondition}`;
+
+  return {
+    db,
+    dbType: type,
+    ownsConnection,
+    transaction<T>(fn: () => T): T {
+      return db.transaction(fn)();
+    },
+    // Takes the write lock right away so that rows read by `fn` can't be changed by other connections
+    immediateTransaction<T>(fn: () => T): T {
+      return db.transaction(fn).immediate();
+    },
+    getStatement: db.prepare(
+      `UPDATE OR IGNORE ${escapedTableName}
+      SET
+        lastAccess = @now,
+        accessCount = (accessCount >> MAX(0, (@now - lastAccess) / ${lfuHalfLifeMs})) + 1
+        ${slidingTtl}
+      WHERE key = @key AND (expires > @now OR expires IS NULL)
+      RETURNING value, compressed, expires, staleAt, serializer, keyId, size, counter`
+    ) as any as {
+      get(params: GetStatementParams): GetStatementResult | undefined;
+    },
+    // Applies reads batched by `accessFlushIntervalMs`, `now` is time of the last read
+    accessStatement: db.prepare(
+      `UPDATE OR IGNORE ${escapedTableName}
+      SET
+        lastAccess = MAX(lastAccess, @now),
+        accessCount = (accessCount >> MAX(0, (@now - lastAccess) / ${lfuHalfLifeMs})) + @count
+        ${slidingTtl}
+      WHERE key = @key AND (expires > @now OR expires IS NULL)`
+    ) as any as {
+      run(params: AccessStatementParams): void;
+    },
+    peekStatement: db.prepare(
+      `SELECT value, compressed, staleAt, serializer, keyId, expires, lastAccess, size, counter, version
+      FROM ${escapedTableName}
+      WHERE key = @key AND (expires > @now OR expires IS NULL)`
+    ) as any as {
+      get(params: GetStatementParams): PeekStatementResult | undefined | null;
+    },
+    // Moves expiration while keeping length of the stale period
+    touchStatement: db.prepare(
+      `UPDATE ${escapedTableName}
+      SET
+        expires = @expires + COALESCE(expires - staleAt, 0),
+        staleAt = CASE WHEN staleAt IS NULL THEN NULL ELSE @expires END,
+        ttl = @expires - @now,
+        lastAccess = @now
+      WHERE key = @key AND (expires > @now OR expires IS NULL)
+      RETURNING key`
+    ) as any as {
+      get(params: TouchStatementParams): KeyResult | undefined | null;
+    },
+    expireStatement: db.prepare(
+      `UPDATE ${escapedTableName}
+      SET expires = @expires, staleAt = NULL, ttl = NULL
+      WHERE key = @key AND (expires > @now OR expires IS NULL)
+      RETURNING key`
+    ) as any as {
+      get(params: TouchStatementParams): KeyResult | undefined | null;
+    },
+    setStatement: db.prepare(
+      `INSERT OR REPLACE INTO ${escapedTableName}
+      (key, value, expires, staleAt, lastAccess, compressed, size, serializer, keyId, created, ttl, counter,
+        accessCount, version)
+      VALUES (
+        @key, @value, @expires, @staleAt, @now, @compressed, @size, @serializer, @keyId, @now, @ttl, @counter,
+        COALESCE((SELECT accessCount FROM ${escapedTableName} WHERE key = @key), 0),
+        MAX(COALESCE((SELECT version FROM ${escapedTableName} WHERE key = @key), 0) + 1, @now)
+      )`
+    ) as any as {
+      run(params: SetStatementParams): void;
+    },
+    // Version starts at current time so that a recreated item doesn't get version of the removed one
+    incrementStatement: db.prepare(
+      `INSERT INTO ${escapedTableName}
+      (key, value, expires, staleAt, lastAccess, compressed, size, serializer, keyId, created, ttl, counter,
+        accessCount, version)
+      VALUES (
+        @key, X'', @expires, NULL, @now, 0, 8, '${COUNTER_SERIALIZER}', NULL, @now, @ttl, @by, 0, @now
+      )
+      ON CONFLICT (key) DO UPDATE SET
+        counter = counter + @by,
+        lastAccess = @now,
+        version = MAX(version + 1, @now)
+      WHERE serializer = '${COUNTER_SERIALIZER}'
+      RETURNING counter`
+    ) as any as {
+      get(
+        params: IncrementStatementParams
+      ): { counter: number } | undefined | null;
+    },
+    toCounterStatement: db.prepare(
+      `UPDATE ${escapedTableName}
+      SET value = X'', compressed = 0, size = 8, serializer = '${COUNTER_SERIALIZER}', keyId = NULL,
+        counter = @counter, lastAccess = @now, version = MAX(version + 1, @now)
+      WHERE key = @key
+      RETURNING counter`
+    ) as any as {
+      get(
+        params: ToCounterStatementParams
+      ): { counter: number } | undefined | null;
+    },
+    deleteExpiredStatement: db.prepare(
+      `DELETE FROM ${escapedTableName} WHERE key = @key AND expires <= @now RETURNING key`
+    ) as any as {
+      all(params: GetStatementParams): KeyResult[];
+    },
+    expiredStatement: db.prepare(
+      `SELECT 1 AS expired FROM ${escapedTableName} WHERE key = @key AND expires <= @now`
+    ) as any as {
+      get(params: GetStatementParams): { expired: number } | undefined | null;
+    },
+    sizeStatement: db.prepare(
+      `SELECT COUNT(*) AS items, COALESCE(SUM(size), 0) AS sizeBytes FROM ${escapedTableName}`
+    ) as any as {
+      get(params?: Record<string, never>): SizeStatementResult;
+    },
+    deleteStatement: db.prepare(
+      `DELETE FROM ${escapedTableName} WHERE key = @key RETURNING key`
+    ) as any as {
+      all(params: DeleteStatementParams): KeyResult[];
+    },
+    chunksStatement: db.prepare(
+      `SELECT idx, data FROM ${escapedChunksTableName}
+      WHERE id = @id AND idx >= @from
+      ORDER BY idx LIMIT @limit`
+    ) as any as {
+      all(params: ChunksStatementParams): ChunkResult[];
+    },
+    insertChunkStatement: db.prepare(
+      `INSERT INTO ${escapedChunksTableName} (id, idx, data, created) VALUES (@id, @idx, @data, @now)`
+    ) as any as {
+      run(params: InsertChunkStatementParams): void;
+    },
+    // Chunks of streams which were never stored, chunks written before schema version 10 have no time
+    abandonedChunksStatement: db.prepare(
+      `SELECT id FROM ${escapedChunksTableName} AS c
+      WHERE NOT EXISTS (
+        SELECT 1 FROM ${escapedTableName}
+        WHERE serializer = '${STREAM_SERIALIZER}' AND value = c.id
+      )
+      GROUP BY id
+      HAVING MAX(COALESCE(created, 0)) < @before
+      LIMIT @limit`
+    ) as any as {
+      all(params: AbandonedChunksStatementParams): { id: Buffer }[];
+    },
+    deleteChunksStatement: db.prepare(
+      `DELETE FROM ${escapedChunksTableName} WHERE id = @id`
+    ) as any as {
+      run(params: DeleteChunksStatementParams): void;
+    },
+    // Replacing an item doesn't fire delete trigger
+    deleteItemChunksStatement: db.prepare(
+      `DELETE FROM ${escapedChunksTableName}
+      WHERE id = (
+        SELECT value FROM ${escapedTableName}
+        WHERE key = @key AND serializer = '${STREAM_SERIALIZER}'
+      )`
+    ) as any as {
+      run(params: DeleteStatementParams): void;
+    },
+    deleteTagsStatement: db.prepare(
+      `DELETE FROM ${escapedTagsTableName} WHERE key = @key`
+    ) as any as {
+      run(params: DeleteStatementParams): void;
+    },
+    insertTagStatement: db.prepare(
+      `INSERT OR IGNORE INTO ${escapedTagsTableName} (tag, key) VALUES (@tag, @key)`
+    ) as any as {
+      run(params: TagStatementParams): void;
+    },
+    invalidateTagStatement: db.prepare(
+      `DELETE FROM ${escapedTableName}
+      WHERE key IN (SELECT key FROM ${escapedTagsTableName} WHERE tag = @tag)
+      RETURNING key`
+    ) as any as {
+      all(params: InvalidateTagStatementParams): KeyResult[];
+    },
+    deleteMatchingStatement: db.prepare(
+      `DELETE FROM ${escapedTableName} WHERE ${matchCondition} RETURNING key`
+    ) as any as {
+      all(params: DeleteMatchingStatementParams): KeyResult[];
+    },
+    scanKeysStatement: db.prepare(
+      `SELECT key FROM ${escapedTableName}
+      WHERE ${scanCondition}
+      ORDER BY key LIMIT @limit`
+    ) as any as {
+      all(params: ScanStatementParams): KeyResult[];
+    },
+    scanStatement: db.prepare(
+      `SELECT key, value, compressed, expires, staleAt, serializer, keyId, size, counter
+      FROM ${escapedTableName}
+      WHERE ${scanCondition}
+      ORDER BY key LIMIT @limit`
+    ) as any as {
+      all(params: ScanStatementParams): ScanStatementResult[];
+    },
+    exportStatement: db.prepare(
+      `SELECT key, value, compressed, expires, staleAt, serializer, keyId, counter, size,
+        CASE WHEN serializer = '${STREAM_SERIALIZER}'
+          THEN (SELECT COUNT(*) FROM ${escapedChunksTableName} WHERE id = c.value)
+        END AS chunks,
+        (SELECT json_group_array(tag) FROM ${escapedTagsTableName} AS t WHERE t.key = c.key) AS tags
+      FROM ${escapedTableName} AS c
+      WHERE (@after IS NULL OR key > @after) AND (expires > @now OR expires IS NULL)
+      ORDER BY key LIMIT @limit`
+    ) as any as {
+      all(params: ExportStatementParams): ExportStatementResult[];
+    },
+    clearStatement: db.prepare(
+      `DELETE FROM ${escapedTableName} RETURNING key`
+    ) as any as {
+      all(params?: Record<string, never>): KeyResult[];
+    },
+    cleanupExpiredStatement: db.prepare(
+      `DELETE FROM ${escapedTableName}
+      WHERE key IN (
+        SELECT key FROM ${escapedTableName} WHERE expires < @now LIMIT @limit
+      )
+      RETURNING key`
+    ) as any as {
+      all(params: CleanupExpiredStatementParams): KeyResult[];
+    },
+    cleanupLruStatement: db.prepare(
+      `DELETE FROM ${escapedTableName}
+      WHERE key IN (
+        SELECT key FROM ${escapedTableName}
+        WHERE ${prefixCondition}
+        ORDER BY ${evictionOrder("ASC")}
+        LIMIT MIN(@limit, MAX(0, (
+          SELECT COUNT(*) - @maxItems FROM ${escapedTableName} WHERE ${prefixCondition}
+        )))
+      )
+      RETURNING key`
+    ) as any as {
+      all(params: CleanupLruStatementParams): KeyResult[];
+    },
+    cleanupSizeStatement: db.prepare(
+      `DELETE FROM ${escapedTableName}
+      WHERE key IN (
+        SELECT key FROM (
+          SELECT key, SUM(size) OVER (
+            ORDER BY ${evictionOrder("DESC")} ROWS UNBOUNDED PRECEDING
+          ) AS total
+          FROM ${escapedTableName}
+          WHERE ${prefixCondition}
+        )
+        WHERE total > @maxSizeBytes
+        LIMIT @limit
+      )
+      RETURNING key`
+    ) as any as {
+      all(params: CleanupSizeStatementParams): KeyResult[];
+    },
+  };
+}
+
+interface PendingAccess {
+  lastAccess: number;
+  count: number;
+}
+
+/**
+ * Reads which are not written to the database yet, used with `accessFlushIntervalMs` and for memory cache hits.
+ */
+class AccessLog {
+  private readonly accesses = new Map<string, PendingAccess>();
+
+  public record(db: SqliteCacheDatabase, key: string, time: number) {
+    const access = this.accesses.get(key);
+    if (access) {
+      access.lastAccess = Math.max(access.lastAccess, time);
+      access.count++;
+    } else {
+      this.accesses.set(key, { lastAccess: time, count: 1 });
+    }
+
+    if (this.accesses.size >= MAX_PENDING_ACCESSES) {
+      this.flush(db);
+    }
+  }
+
+  public flush(db: SqliteCacheDatabase) {
+    if (!this.accesses.size) {
+      return;
+    }
+
+    const accesses = [...this.accesses];
+    this.accesses.clear();
+    db.transaction(() => {
+      for (const [key, { lastAccess, count }] of accesses) {
+        db.accessStatement.run({ key, now: lastAccess, count });
+      }
+    });
+  }
+}
+
+/**
+ * Reads item which is not expired and updates its access time, right away or later through `accessLog`.
+ */
+function readItem(
+  db: SqliteCacheDatabase,
+  accessLog: AccessLog | undefined,
+  key: string,
+  time: number
+): GetStatementResult | undefined {
+  if (!accessLog) {
+    return db.getStatement.get({ key, now: time }) ?? undefined;
+  }
+
+  const res = db.peekStatement.get({ key, now: time });
+  if (res) {
+    accessLog.record(db, key, time);
+  }
+  return res ?? undefined;
+}
+
+/**
+ * Outcome of writing a single item. Oversized items are not stored and any previous item is removed.
+ */
+type WriteResult = "stored" | "removed" | "skipped";
+
+type SqliteCacheDatabase = ReturnType<typeof openSqliteCache>;
+
+function now() {
+  return Date.now();
+}
+
+/**
+ * Runs `callback` every `intervalMs` without keeping the process alive, `false` disables the timer.
+ */
+function startTimer(
+  callback: () => unknown,
+  intervalMs: number | false
+): Timer | undefined {
+  if (intervalMs === false) {
+    return undefined;
+  }
+
+  const timer = setInterval(callback, intervalMs);
+  timer.unref?.();
+  return timer;
+}
+
+function matchParams(opts: SqliteCacheScanOptions) {
+  const syntax = opts.patternSyntax ?? "glob";
+  return {
+    prefix: opts.prefix ?? null,
+    glob: syntax === "glob" ? opts.pattern ?? null : null,
+    like: syntax === "like" ? opts.pattern ?? null : null,
+  };
+}
+
+/**
+ * Escapes `value` to match literally in `patternSyntax`.
+ */
+function escapePattern(value: string, patternSyntax: "glob" | "like") {
+  return patternSyntax === "glob"
+    ? value.replace(/[*?[]/g, "[$&]")
+    : value.replace(/[%_\\]/g, "\\$&");
+}
+
+/**
+ * Names can't contain the separator of the key prefix, otherwise keys of one namespace could be read through another.
+ */
+function checkNamespaceName(name: string) {
+  if (!name) {
+    throw new Error("Namespace name must not be empty");
+  }
+  if (name.includes(":")) {
+    throw new Error(`Namespace name "${name}" must not contain ":"`);
+  }
+}
+
+function emptyCounters(): SqliteCacheCounters {
+  return {
+    hits: 0,
+    misses: 0,
+    expired: 0,
+    sets: 0,
+    deletes: 0,
+    ttlEvictions: 0,
+    lruEvictions: 0,
+  };
+}
+
+function isStale(res: GetStatementResult, time: number) {
+  return res.staleAt !== null && res.staleAt <= time;
+}
+
+type ZlibCallback = (error: Error | null, result: Buffer) => void;
+type ZlibFunction = (buffer: any, options: any, cb: ZlibCallback) => void;
+type ZlibSyncFunction = (buffer: any, options: any) => Buffer;
+type ZlibStreamFunction = (options: any) => Transform;
+
+interface CompressionCodec {
+  readonly compress: (buffer: Buffer, level?: number) => Promise<Buffer>;
+  readonly decompress: (buffer: Buffer) => Promise<Buffer>;
+  readonly compressSync: (buffer: Buffer, level?: number) => Buffer;
+  readonly decompressSync: (buffer: Buffer) => Buffer;
+  readonly compressStream: (level?: number) => Transform;
+  readonly decompressStream: () => Transform;
+}
+
+function zlibCodec(
+  [compress, compressSync, compressStream]: [
+    ZlibFunction?,
+    ZlibSyncFunction?,
+    ZlibStreamFunction?
+  ],
+  [decompress, decompressSync, decompressStream]: [
+    ZlibFunction?,
+    ZlibSyncFunction?,
+    ZlibStreamFunction?
+  ],
+  levelOptions: (level: number) => object
+): CompressionCodec | undefined {
+  if (
+    !compress ||
+    !decompress ||
+    !compressSync ||
+    !decompressSync ||
+    !compressStream ||
+    !decompressStream
+  ) {
+    return undefined;
+  }
+
+  const compressAsync = promisify(compress);
+  const decompressAsync = promisify(decompress);
+  const options = (level?: number) =>
+    level === undefined ? {} : levelOptions(level);
+
+  return {
+    compress: (buffer, level) => compressAsync(buffer, options(level)),
+    decompress: (buffer) => decompressAsync(buffer, {}),
+    compressSync: (buffer, level) => compressSync(buffer, options(level)),
+    decompressSync: (buffer) => decompressSync(buffer, {}),
+    compressStream: (level) => compressStream(options(level)),
+    decompressStream: () => decompressStream({}),
+  };
+}
+
+/**
+ * Values of the `compressed` column. 0 means not compressed and gzip is 1 for compatibility with the former boolean flag.
+ */
+const compressionIds: Record<SqliteCacheCompression, number> = {
+  gzip: 1,
+  deflate: 2,
+  brotli: 3,
+  zstd: 4,
+};
+
+// Use Node.js zlib APIs (Bun supports these natively)
+// zstd is missing in older runtimes so it is looked up dynamically
+const compressionCodecs: Record<
+  SqliteCacheCompression,
+  CompressionCodec | undefined
+> = {
+  gzip: zlibCodec(
+    [zlib.gzip, zlib.gzipSync, zlib.createGzip],
+    [zlib.gunzip, zlib.gunzipSync, zlib.createGunzip],
+    (level) => ({ level })
+  ),
+  deflate: zlibCodec(
+    [zlib.deflate, zlib.deflateSync, zlib.createDeflate],
+    [zlib.inflate, zlib.inflateSync, zlib.createInflate],
+    (level) => ({ level })
+  ),
+  brotli: zlibCodec(
+    [zlib.brotliCompress, zlib.brotliCompressSync, zlib.createBrotliCompress],
+    [
+      zlib.brotliDecompress,
+      zlib.brotliDecompressSync,
+      zlib.createBrotliDecompress,
+    ],
+    (level) => ({
+      params: { [zlib.constants.BROTLI_PARAM_QUALITY]: level },
+    })
+  ),
+  zstd: zlibCodec(
+    [
+      (zlib as any).zstdCompress,
+      (zlib as any).zstdCompressSync,
+      (zlib as any).createZstdCompress,
+    ],
+    [
+      (zlib as any).zstdDecompress,
+      (zlib as any).zstdDecompressSync,
+      (zlib as any).createZstdDecompress,
+    ],
+    (level) => ({
+      params: { [(zlib.constants as any).ZSTD_c_compressionLevel]: level },
+    })
+  ),
+};
+
+function getCompressionCodec(
+  compression: SqliteCacheCompression
+): CompressionCodec {
+  const codec = compressionCodecs[compression];
+  if (!codec) {
+    throw new Error(
+      `Compression "${compression}" is not supported by this runtime`
+    );
+  }
+
+  return codec;
+}
+
+function getCompressionById(id: number): SqliteCacheCompression {
+  const compression = (
+    Object.keys(compressionIds) as SqliteCacheCompression[]
+  ).find((name) => compressionIds[name] === id);
+
+  if (!compression) {
+    throw new Error(`Unknown cache compression ${id}`);
+  }
+
+  return compression;
+}
+
+interface MemoryCacheItem {
+  readonly value: unknown;
+  readonly size: number;
+  readonly expires: number;
+}
+
+/**
+ * Bounded in-process LRU cache of decoded values used in front of SQLite.
+ */
+class MemoryCache {
+  // Map iterates in insertion order so the first item is the least recently used
+  private readonly items = new Map<string, MemoryCacheItem>();
+  private sizeBytes = 0;
+
+  constructor(private readonly configuration: SqliteCacheMemoryConfiguration) {}
+
+  public get(key: string, time: number): { value: unknown } | undefined {
+    const item = this.items.get(key);
+    if (!item) {
+      return undefined;
+    }
+
+    this.items.delete(key);
+    if (item.expires <= time) {
+      this.sizeBytes -= item.size;
+      return undefined;
+    }
+
+    this.items.set(key, item);
+    return { value: item.value };
+  }
+
+  /**
+   * Remembers fresh item loaded from or written to SQLite.
+   */
+  public set(key: string, value: unknown, row: GetStatementResult) {
+    this.delete(key);
+
+    const time = now();
+    const { maxItems = 1000, maxSizeBytes, ttlMs } = this.configuration;
+    const expires = Math.min(
+      row.staleAt ?? row.expires ?? Infinity,
+      ttlMs !== undefined ? time + ttlMs : Infinity
+    );
+
+    if (expires <= time || (maxSizeBytes && row.size > maxSizeBytes)) {
+      return;
+    }
+
+    this.items.set(key, { value, size: row.size, expires });
+    this.sizeBytes += row.size;
+
+    for (const [oldKey] of this.items) {
+      if (
+        this.items.size <= maxItems &&
+        (!maxSizeBytes || this.sizeBytes <= maxSizeBytes)
+      ) {
+        break;
+      }
+
+      this.delete(oldKey);
+    }
+  }
+
+  public delete(key: string) {
+    const item = this.items.get(key);
+    if (item) {
+      this.items.delete(key);
+      this.sizeBytes -= item.size;
+    }
+  }
+}
+
+function parseConfiguration(configuration: SqliteCacheConfiguration) {
+  const config = configurationSchema.parse(configuration);
+  if (typeof config.compress === "string") {
+    getCompressionCodec(config.compress);
+  }
+  if (
+    config.encryption &&
+    !Object.prototype.hasOwnProperty.call(
+      config.encryption.keys,
+      config.encryption.currentKeyId
+    )
+  ) {
+    throw new Error(
+      `Unknown cache encryption key "${config.encryption.currentKeyId}"`
+    );
+  }
+
+  return config;
+}
+
+interface SerializedItem {
+  readonly params: SetStatementParams;
+
+  /**
+   * Codec and level the serialized value should be compressed with.
+   */
+  readonly compression?: {
+    readonly codec: SqliteCacheCompression;
+    readonly level?: number;
+  };
+}
+
+function itemExpiration(
+  configuration: SqliteCacheConfiguration,
+  opts: SqliteCacheSetOptions
+): { expires: number | null; staleAt: number | null; ttl: number | null } {
+  const ttl = opts.ttlMs ?? configuration.defaultTtlMs;
+  const staleTtl = opts.staleTtlMs ?? configuration.defaultStaleTtlMs ?? 0;
+  const time = Date.now();
+
+  return {
+    expires: ttl !== undefined ? time + ttl + staleTtl : null,
+    staleAt: ttl !== undefined && staleTtl > 0 ? time + ttl : null,
+    ttl: ttl ?? null,
+  };
+}
+
+/**
+ * Serializes item and decides if it should be compressed.
+ * Compression is left to the caller so it can be done both asynchronously and synchronously.
+ */
+function serializeItem(
+  configuration: SqliteCacheConfiguration,
+  key: string,
+  value: unknown,
+  opts: SqliteCacheSetOptions
+): SerializedItem {
+  const { expires, staleAt, ttl } = itemExpiration(configuration, opts);
+
+  const compression = opts.compress ?? configuration.compress ?? false;
+  const compressionMinLength =
+    opts.compressionMinLength ??
+    configuration.compressionMinLength ??
+    COMPRESSION_MIN_LENGTH;
+
+  const serializer = getConfiguredSerializer(configuration);
+  const valueBuffer = serializer.encode(value);
+
+  return {
+    params: {
+      key,
+      value: valueBuffer,
+      expires,
+      staleAt,
+      ttl,
+      compressed: 0,
+      now: now(),
+      size: valueBuffer.length,
+      serializer: serializer.name,
+      keyId: null,
+      counter: null,
+    },
+    compression:
+      compression && valueBuffer.length >= compressionMinLength
+        ? {
+            codec: compression === true ? "gzip" : compression,
+            level: opts.compressionLevel ?? configuration.compressionLevel,
+          }
+        : undefined,
+  };
+}
+
+/**
+ * Uses compressed value unless compression didn't make it smaller.
+ */
+function withCompressedValue(
+  params: SetStatementParams,
+  codec: SqliteCacheCompression,
+  compressedValue: Buffer
+): SetStatementParams {
+  if (compressedValue.length >= params.value.length) {
+    return params;
+  }
+
+  return {
+    ...params,
+    value: compressedValue,
+    compressed: compressionIds[codec],
+    size: compressedValue.length,
+  };
+}
+
+const ENCRYPTION_IV_LENGTH = 12;
+const ENCRYPTION_TAG_LENGTH = 16;
+
+// Buffer types of bun and node disagree, so ciphers are used through these loose signatures
+interface GcmCipher {
+  setAAD(data: any): unknown;
+  setAuthTag(tag: any): unknown;
+  getAuthTag(): Uint8Array;
+  update(data: any): Uint8Array;
+  final(): Uint8Array;
+}
+type GcmCipherFunction = (algorithm: string, key: any, iv: any) => GcmCipher;
+
+function getEncryptionKey(
+  configuration: SqliteCacheConfiguration,
+  keyId: string
+): Buffer {
+  const keys = configuration.encryption?.keys ?? {};
+  if (!Object.prototype.hasOwnProperty.call(keys, keyId)) {
+    throw new Error(`Unknown cache encryption key "${keyId}"`);
+  }
+
+  return keys[keyId];
+}
+
+/**
+ * Thrown for values encrypted with an unknown key or which fail authentication, such items are treated as missing.
+ */
+class DecryptionError extends Error {}
+
+/**
+ * Encrypts `value` with AES-256-GCM, `aad` binds the ciphertext to where it is stored.
+ * Output is IV followed by ciphertext and authentication tag.
+ */
+function encrypt(
+  configuration: SqliteCacheConfiguration,
+  keyId: string,
+  aad: string,
+  value: Buffer
+): Buffer {
+  const iv = getRandomValues(new Uint8Array(ENCRYPTION_IV_LENGTH));
+  const cipher = (createCipheriv as unknown as GcmCipherFunction)(
+    "aes-256-gcm",
+    getEncryptionKey(configuration, keyId),
+    iv
+  );
+  cipher.setAAD(Buffer.from(aad));
+
+  return Buffer.concat([
+    iv,
+    cipher.update(value),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+}
+
+function decrypt(
+  configuration: SqliteCacheConfiguration,
+  keyId: string,
+  aad: string,
+  value: Buffer
+): Buffer {
+  try {
+    const iv = value.subarray(0, ENCRYPTION_IV_LENGTH);
+    const tag = value.subarray(value.length - ENCRYPTION_TAG_LENGTH);
+    const decipher = (createDecipheriv as unknown as GcmCipherFunction)(
+      "aes-256-gcm",
+      getEncryptionKey(configuration, keyId),
+      iv
+    );
+    decipher.setAAD(Buffer.from(aad));
+    decipher.setAuthTag(tag);
+
+    return Buffer.concat([
+      decipher.update(
+        value.subarray(
+          ENCRYPTION_IV_LENGTH,
+          value.length - ENCRYPTION_TAG_LENGTH
+        )
+      ),
+      decipher.final(),
+    ]);
+  } catch (ex) {
+    throw new DecryptionError(ex instanceof Error ? ex.message : String(ex));
+  }
+}
+
+/**
+ * Encrypts serialized and compressed value with the current key when encryption is configured.
+ * Item key is used as associated data so that encrypted values can't be moved between items.
+ */
+function withEncryptedValue(
+  configuration: SqliteCacheConfiguration,
+  params: SetStatementParams
+): SetStatementParams {
+  if (!configuration.encryption) {
+    return params;
+  }
+
+  const keyId = configuration.encryption.currentKeyId;
+  const value = encrypt(configuration, keyId, params.key, params.value);
+  return { ...params, value, size: value.length, keyId };
+}
+
+// Buffer types of bun and node disagree, so Buffers are concatenated through plain byte array views
+function concatBuffers(buffers: readonly Buffer[]): Buffer {
+  return Buffer.concat(
+    buffers.map((b) => new Uint8Array(b.buffer, b.byteOffset, b.byteLength))
+  );
+}
+
+/**
+ * Associated data of a chunk binds it to its item and position.
+ */
+function chunkAad(key: string, idx: number): string {
+  return `${key}\0${idx}`;
+}
+
+/**
+ * Returns stored value with encryption removed, value is still compressed.
+ * Chunks of items written by `setStream` are concatenated.
+ */
+function storedValue(
+  configuration: SqliteCacheConfiguration,
+  db: SqliteCacheDatabase,
+  key: string,
+  res: Pick<GetStatementResult, "value" | "serializer" | "keyId">
+): Buffer {
+  if (res.serializer === STREAM_SERIALIZER) {
+    const chunks = db.chunksStatement.all({
+      id: res.value,
+      from: 0,
+      limit: -1,
+    });
+    return concatBuffers(
+      chunks.map((c) =>
+        res.keyId === null
+          ? c.data
+          : decrypt(configuration, res.keyId, chunkAad(key, c.idx), c.data)
+      )
+    );
+  }
+
+  return res.keyId === null
+    ? res.value
+    : decrypt(configuration, res.keyId, key, res.value);
+}
+
+/**
+ * Decodes the value of a stored item without awaiting, for use inside transactions.
+ */
+function decodeItemSync(
+  configuration: SqliteCacheConfiguration,
+  db: SqliteCacheDatabase,
+  key: string,
+  res: GetStatementResult
+): unknown {
+  if (res.serializer === COUNTER_SERIALIZER) {
+    return res.counter;
+  }
+
+  let value = storedValue(configuration, db, key, res);
+
+  if (res.compressed) {
+    value = getCompressionCodec(
+      getCompressionById(res.compressed)
+    ).decompressSync(value);
+  }
+
+  return getSerializer(configuration, res.serializer ?? "cbor").decode(value);
+}
+
+/**
+ * Adds `by` to a counter. Numbers stored by `set` are converted to counters, other items throw.
+ */
+function incrementItem(
+  configuration: SqliteCacheConfiguration,
+  db: SqliteCacheDatabase,
+  params: IncrementStatementParams
+): number {
+  const res = db.incrementStatement.get(params);
+  if (res) {
+    return res.counter;
+  }
+
+  const item = db.peekStatement.get({ key: params.key, now: params.now });
+  const value =
+    item && item.serializer !== STREAM_SERIALIZER
+      ? decodeItemSync(configuration, db, params.key, item)
+      : undefined;
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new Error(`Cache item "${params.key}" is not a counter`);
+  }
+
+  return db.toCounterStatement.get({
+    key: params.key,
+    counter: value + params.by,
+    now: params.now,
+  })!.counter;
+}
+
+function getConfiguredSerializer(
+  configuration: SqliteCacheConfiguration
+): SqliteCacheSerializer {
+  const serializer = configuration.serializer ?? "cbor";
+  return typeof serializer === "string" ? serializers[serializer] : serializer;
+}
+
+function getSerializer(
+  configuration: SqliteCacheConfiguration,
+  name: string
+): SqliteCacheSerializer {
+  if (name === STREAM_SERIALIZER) {
+    return serializers.raw;
+  }
+
+  const serializer = getConfiguredSerializer(configuration);
+  if (serializer.name === name) {
+    return serializer;
+  }
+
+  if (Object.prototype.hasOwnProperty.call(serializers, name)) {
+    return serializers[name as SqliteCacheSerializerName];
+  }
+
+  throw new Error(`Unknown cache serializer "${name}"`);
+}
+
+/**
+ * Returns true when the encoded item exceeds `maxEntrySizeBytes` and should be skipped.
+ */
+function isOversized(
+  configuration: SqliteCacheConfiguration,
+  params: SetStatementParams
+): boolean {
+  const { maxEntrySizeBytes, oversizedEntry } = configuration;
+  if (!maxEntrySizeBytes || params.size <= maxEntrySizeBytes) {
+    return false;
+  }
+
+  if (oversizedEntry === "throw") {
+    throw new Error(
+      `Cache item "${params.key}" is ${params.size} bytes which exceeds maxEntrySizeBytes of ${maxEntrySizeBytes}`
+    );
+  }
+
+  return true;
+}
+
+function reportInvalidValue(
+  configuration: SqliteCacheConfiguration<any>,
+  key: string,
+  error: unknown
+) {
+  try {
+    configuration.onInvalidValue?.(key, error);
+  } catch (ex) {
+    console.error("Error in cache-sqlite-lru-ttl onInvalidValue hook", ex);
+  }
+}
+
+/**
+ * Stores encoded item together with its tags. Must be called inside of a transaction.
+ */
+function writeItem(
+  configuration: SqliteCacheConfiguration,
+  db: SqliteCacheDatabase,
+  params: SetStatementParams,
+  tags: readonly string[] = []
+): WriteResult {
+  if (isOversized(configuration, params)) {
+    const deleted = db.deleteStatement.all({ key: params.key });
+    return deleted.length ? "removed" : "skipped";
+  }
+
+  db.deleteItemChunksStatement.run({ key: params.key });
+  db.setStatement.run(params);
+  db.deleteTagsStatement.run({ key: params.key });
+  for (const tag of tags) {
+    db.insertTagStatement.run({ key: params.key, tag });
+  }
+
+  return "stored";
+}
+
+type PruneStep = (
+  | { readonly event: "expired"; readonly reason: "ttl" }
+  | { readonly event: "evicted"; readonly reason: "maxItems" | "maxSizeBytes" }
+) & {
+  /**
+   * Removes next batch of at most `limit` items, fewer items mean the step is done.
+   */
+  readonly remove: (limit: number) => KeyResult[];
+};
+
+/**
+ * Steps of the cleanup which remove expired items and evict items over `maxItems` and `maxSizeBytes`
+ * of the cache and of namespaces by their key prefix.
+ */
+function pruneSteps(
+  configuration: SqliteCacheConfiguration,
+  db: SqliteCacheDatabase,
+  namespaceQuotas: ReadonlyMap<string, SqliteCacheNamespaceOptions>
+): PruneStep[] {
+  const quotas: [string | null, SqliteCacheNamespaceOptions][] = [
+    [null, configuration],
+    ...namespaceQuotas,
+  ];
+
+  return [
+    {
+      event: "expired",
+      reason: "ttl",
+      remove: (limit) => db.cleanupExpiredStatement.all({ now: now(), limit }),
+    },
+    ...quotas.flatMap(([prefix, { maxItems, maxSizeBytes }]): PruneStep[] => [
+      ...(maxItems
+        ? [
+            {
+              event: "evicted",
+              reason: "maxItems",
+              remove: (limit: number) =>
+                db.cleanupLruStatement.all({ maxItems, prefix, limit }),
+            } as const,
+          ]
+        : []),
+      ...(maxSizeBytes
+        ? [
+            {
+              event: "evicted",
+              reason: "maxSizeBytes",
+              remove: (limit: number) =>
+                db.cleanupSizeStatement.all({ maxSizeBytes, prefix, limit }),
+            } as const,
+          ]
+        : []),
+    ]),
+  ];
+}
+
+/**
+ * Vacuum mode used by `prune` unless given explicitly.
+ */
+function defaultVacuum(
+  configuration: SqliteCacheConfiguration
+): SqliteCachePruneOptions["vacuum"] {
+  return configuration.incrementalVacuum ? "incremental" : false;
+}
+
+/**
+ * Removes chunks of at most `limit` streams which were interrupted before their item was stored
+ * and which got no chunk since `before`. Returns number of removed streams.
+ */
+function removeAbandonedChunks(
+  db: SqliteCacheDatabase,
+  before: number,
+  limit: number
+): number {
+  return db.transaction(() => {
+    const ids = db.abandonedChunksStatement.all({ before, limit });
+    for (const { id } of ids) {
+      db.deleteChunksStatement.run({ id });
+    }
+    return ids.length;
+  });
+}
+
+/**
+ * Reclaims free pages of the database and returns by how many bytes the file shrank.
+ */
+function vacuumSqliteCache(
+  db: SqliteCacheDatabase,
+  mode: "incremental" | "full"
+): number {
+  const pageCount = () =>
+    (db.db.prepare("PRAGMA page_count").get() as { page_count: number })
+      .page_count;
+  const { page_size } = db.db.prepare("PRAGMA page_size").get() as {
+    page_size: number;
+  };
+
+  const before = pageCount();
+  db.db.exec(mode === "full" ? "VACUUM" : "PRAGMA incremental_vacuum");
+
+  return Math.max(0, before - pageCount()) * page_size;
+}
+
+function encodeExportRecord(
+  record: SqliteCacheExportRecord | SqliteCacheExportChunk,
+  format: SqliteCacheExportFormat
+): Buffer {
+  if (format === "cbor") {
+    return cbor.encode(record);
+  }
+
+  const line = JSON.stringify({
+    ...record,
+    value: record.value.toString("base64"),
+  });
+  return Buffer.from(line + "\n");
+}
+
+/**
+ * Parses stream created by `export` into records.
+ */
+async function* decodeExportRecords(
+  stream: AsyncIterable<Buffer | string> | Iterable<Buffer | string>,
+  format: SqliteCacheExportFormat
+): AsyncGenerator<
+  SqliteCacheExportRecord | SqliteCacheExportChunk,
+  void,
+  undefined
+> {
+  if (format === "cbor") {
+    const decoder = new cbor.Decoder();
+    const source = Readable.from(stream);
+    source.on("error", (err) => decoder.destroy(err));
+    yield* source.pipe(decoder);
+    return;
+  }
+
+  const parse = (
+    line: string
+  ): SqliteCacheExportRecord | SqliteCacheExportChunk => {
+    const record = JSON.parse(line);
+    return { ...record, value: Buffer.from(record.value, "base64") };
+  };
+
+  const textDecoder = new TextDecoder();
+  let buffered = "";
+  for await (const chunk of stream) {
+    buffered +=
+      typeof chunk === "string"
+        ? chunk
+        : textDecoder.decode(chunk, { stream: true });
+
+    const lines = buffered.split("\n");
+    buffered = lines.pop()!;
+    for (const line of lines.filter((l) => l.trim())) {
+      yield parse(line);
+    }
+  }
+
+  buffered += textDecoder.decode();
+  if (buffered.trim()) {
+    yield parse(buffered);
+  }
+}
+
+/**
+ * Converts imported record to row with expiration relative to `time`.
+ */
+function importParams(
+  record: SqliteCacheExportRecord,
+  time: number
+): SetStatementParams {
+  const compressed = record.compressed ? compressionIds[record.compressed] : 0;
+  if (compressed === undefined) {
+    throw new Error(`Unknown cache compression "${record.compressed}"`);
+  }
+
+  const counter =
+    record.serializer === COUNTER_SERIALIZER
+      ? Number(record.value.toString())
+      : null;
+
+  return {
+    key: record.key,
+    value: counter === null ? record.value : Buffer.alloc(0),
+    expires: record.expiresInMs === null ? null : time + record.expiresInMs,
+    staleAt: record.staleInMs === null ? null : time + record.staleInMs,
+    now: time,
+    compressed,
+    size: counter === null ? record.value.length : 8,
+    serializer: record.serializer,
+    keyId: record.encryptionKeyId ?? null,
+    ttl: null,
+    counter,
+  };
+}
+
+export class SqliteCache<TData = unknown> {
+  private readonly db: ReturnType<typeof initSqliteCache>;
+  private readonly checkInterval: Timer | undefined;
+  private isClosed: boolean = false;
+  private readonly pendingLoads = new Map<string, Promise<unknown>>();
+  // Start times of `setStream` calls by id of their chunks
+  private readonly activeStreams = new Map<Buffer, number>();
+  private readonly memory: MemoryCache | undefined;
+  private readonly accessLog: AccessLog | undefined;
+  // Reads served by the memory cache, which are always batched
+  private readonly memoryAccessLog: AccessLog | undefined;
+  private readonly flushInterval: Timer | undefined;
+  // Quotas of namespaces by key prefix
+  private readonly namespaceQuotas = new Map<
+    string,
+    SqliteCacheNamespaceOptions
+  >();
+  private counters: SqliteCacheCounters = emptyCounters();
+  private readonly listeners = new Map<
+    keyof SqliteCacheEvents,
+    Set<SqliteCacheEventListener<any>>
+  >();
+
+  constructor(private readonly configuration: SqliteCacheConfiguration<TData>) {
+    const config = parseConfiguration(configuration);
+    this.db = initSqliteCache(config);
+    this.memory = config.memoryCache
+      ? new MemoryCache(config.memoryCache)
+      : undefined;
+    this.checkInterval = startTimer(
+      this.checkForExpiredItems,
+      config.cleanupIntervalMs ?? CLEANUP_INTERVAL_MS
+    );
+    if (config.accessFlushIntervalMs) {
+      this.accessLog = new AccessLog();
+    }
+    if (config.memoryCache) {
+      this.memoryAccessLog = this.accessLog ?? new AccessLog();
+    }
+    if (this.accessLog || this.memoryAccessLog) {
+      this.flushInterval = startTimer(
+        this.flushAccesses,
+        config.accessFlushIntervalMs ?? MEMORY_ACCESS_FLUSH_INTERVAL_MS
+      );
+    }
+    // Errors like incompatible schema version are reported by each operation instead of crashing the process
+    this.db.catch(() => {
+      clearInterval(this.checkInterval);
+      clearInterval(this.flushInterval);
+    });
+  }
+
+  /**
+   * Get cache item by it's key. Stale items are treated as missing.
+   */
+  public async get<T = TData>(
+    key: string,
+    opts: SqliteCacheGetOptions<T> = {}
+  ): Promise<T | undefined> {
+    const res = await this.getWithStatus<T>(key, opts);
+    return res && !res.stale ? res.value : undefined;
+  }
+
+  /**
+   * Get cache item by it's key including stale items which are flagged with `stale`.
+   */
+  public async getWithStatus<T = TData>(
+    key: string,
+    opts: SqliteCacheGetOptions<T> = {}
+  ): Promise<SqliteCacheGetResult<T> | undefined> {
+    if (this.isClosed) {
+      throw new Error("Cache is closed");
+    }
+
+    const db = await this.db;
+    const time = now();
+
+    // Memory cache holds values validated with schema of the cache
+    const remembered = this.memory?.get(key, time);
+    if (remembered && !opts.schema) {
+      this.memoryAccessLog?.record(db, key, time);
+      this.counters.hits++;
+      return { value: remembered.value as T, stale: false };
+    }
+
+    const res = readItem(db, this.accessLog, key, time);
+    const decoded = res
+      ? await this.decodeValid<T>(key, res, opts.schema)
+      : undefined;
+    this.countRead(db, key, decoded && res, time);
+
+    if (!res || !decoded) {
+      return undefined;
+    }
+
+    const stale = isStale(res, time);
+    if (!stale && !opts.schema) {
+      this.memory?.set(key, decoded.value, res);
+    }
+
+    return { value: decoded.value, stale };
+  }
+
+  /**
+   * Get cache item with its metadata including stale items which are flagged with `stale`.
+   */
+  public async getWithMetadata<T = TData>(
+    key: string
+  ): Promise<SqliteCacheMetadata<T> | undefined> {
+    if (this.isClosed) {
+      throw new Error("Cache is closed");
+    }
+
+    const db = await this.db;
+    const time = now();
+    const res = db.transaction(() => {
+      const peeked = db.peekStatement.get({ key, now: time });
+      readItem(db, this.accessLog, key, time);
+      return peeked ?? undefined;
+    });
+    const decoded = res ? await this.decodeValid<T>(key, res) : undefined;
+    this.countRead(db, key, decoded && res, time);
+
+    if (!res || !decoded) {
+      return undefined;
+    }
+
+    return {
+      value: decoded.value,
+      stale: isStale(res, time),
+      expires: res.expires !== null ? new Date(res.expires) : undefined,
+      staleAt: res.staleAt !== null ? new Date(res.staleAt) : undefined,
+      lastAccess: new Date(res.lastAccess),
+      size: res.size,
+      compressed: res.compressed ? getCompressionById(res.compressed) : false,
+      serializer: res.serializer ?? "cbor",
+      encryptionKeyId: res.keyId ?? undefined,
+      version: res.version,
+    };
+  }
+
+  /**
+   * Get cache item by it's key without affecting LRU order. Stale items are treated as missing.
+   */
+  public async peek<T = TData>(key: string): Promise<T | undefined> {
+    const res = await this.peekRow(key);
+    return res ? (await this.decodeValid<T>(key, res))?.value : undefined;
+  }
+
+  /**
+   * Check if cache item exists without affecting LRU order. Stale items are treated as missing.
+   */
+  public async has(key: string): Promise<boolean> {
+    return (await this.peekRow(key)) !== undefined;
+  }
+
+  /**
+   * Remaining time in milliseconds until the item becomes stale or expires.
+   * Returns `Infinity` for items without ttl and `undefined` for missing items.
+   */
+  public async ttl(key: string): Promise<number | undefined> {
+    const res = await this.peekRow(key);
+    if (!res) {
+      return undefined;
+    }
+
+    const expires = res.staleAt ?? res.expires;
+    return expires === null ? Infinity : Math.max(0, expires - now());
+  }
+
+  /**
+   * Set new ttl of an item without rewriting its value. Stale period of the item is kept
+   * and `slidingTtl` extends it by the new ttl. Returns false when the item doesn't exist.
+   * @param ttlMs new ttl from now, defaults to `defaultTtlMs`. Without any ttl the item never expires.
+   */
+  public async touch(
+    key: string,
+    ttlMs: number | undefined = this.configuration.defaultTtlMs
+  ): Promise<boolean> {
+    if (this.isClosed) {
+      throw new Error("Cache is closed");
+    }
+
+    const time = now();
+    this.memory?.delete(key);
+    const res = (await this.db).touchStatement.get({
+      key,
+      expires: ttlMs !== undefined ? time + ttlMs : null,
+      now: time,
+    });
+
+    return !!res;
+  }
+
+  /**
+   * Set time when the item expires without rewriting its value. Any stale period of the item is removed
+   * and `slidingTtl` no longer extends it. Returns false when the item doesn't exist.
+   * @param at expiration time, undefined removes the expiration
+   */
+  public async expire(
+    key: string,
+    at: Date | number | undefined
+  ): Promise<boolean> {
+    if (this.isClosed) {
+      throw new Error("Cache is closed");
+    }
+
+    this.memory?.delete(key);
+    const res = (await this.db).expireStatement.get({
+      key,
+      expires: at !== undefined ? new Date(at).getTime() : null,
+      now: now(),
+    });
+
+    return !!res;
+  }
+
+  /**
+   * Updates cache item by key or creates new one if it doesn't exist.
+   */
+  public async set<T = TData>(
+    key: string,
+    value: T,
+    opts: SqliteCacheSetOptions = {}
+  ) {
+    if (this.isClosed) {
+      throw new Error("Cache is closed");
+    }
+
+    const params = await this.encode(key, value, opts);
+    const db = await this.db;
+    const result = db.transaction(() => this.write(db, params, opts.tags));
+    this.emitWrites([params], [result], [value]);
+
+    setImmediate(this.checkForExpiredItems.bind(this));
+  }
+
+  /**
+   * Stores the item only if the key has no item which is not expired, stale items count as existing.
+   * Returns true when the item was stored.
+   */
+  public async setIfAbsent<T = TData>(
+    key: string,
+    value: T,
+    opts: SqliteCacheSetOptions = {}
+  ): Promise<boolean> {
+    return this.setIf(key, value, opts, (res) => !res);
+  }
+
+  /**
+   * Stores the item only if the key already has an item which is not expired, stale items count as existing.
+   * Returns true when the item was stored.
+   */
+  public async replace<T = TData>(
+    key: string,
+    value: T,
+    opts: SqliteCacheSetOptions = {}
+  ): Promise<boolean> {
+    return this.setIf(key, value, opts, (res) => !!res);
+  }
+
+  /**
+   * Stores the item only if the current item has `version` returned by `getWithMetadata`,
+   * which means it wasn't changed since it was read. Returns true when the item was stored.
+   */
+  public async compareAndSet<T = TData>(
+    key: string,
+    value: T,
+    version: number,
+    opts: SqliteCacheSetOptions = {}
+  ): Promise<boolean> {
+    return this.setIf(key, value, opts, (res) => res?.version === version);
+  }
+
+  /**
+   * Atomically adds `by` to a counter and returns its new value. Missing and expired counters start from zero
+   * with `ttlMs`, existing counters keep their expiration. Counters are read by `get` as numbers, are never
+   * compressed nor encrypted. Numbers stored by `set` become counters, incrementing other items throws.
+   */
+  public async increment(
+    key: string,
+    by: number = 1,
+    opts: SqliteCacheIncrementOptions = {}
+  ): Promise<number> {
+    if (this.isClosed) {
+      throw new Error("Cache is closed");
+    }
+    if (!Number.isFinite(by)) {
+      throw new Error(`Cache counter can't be incremented by ${by}`);
+    }
+
+    const db = await this.db;
+    const time = now();
+    const ttl = opts.ttlMs ?? this.configuration.defaultTtlMs ?? null;
+    this.memory?.delete(key);
+
+    const [expired, counter] = db.immediateTransaction(() => {
+      const expired = db.deleteExpiredStatement.all({ key, now: time });
+      const counter = incrementItem(this.configuration, db, {
+        key,
+        by,
+        expires: ttl !== null ? time + ttl : null,
+        ttl,
+        now: time,
+      });
+      return [expired, counter] as const;
+    });
+
+    this.emitRemoved("expired", expired, "ttl");
+    this.counters.sets++;
+    this.emit("set", { keys: [key], reason: "set" });
+    setImmediate(this.checkForExpiredItems.bind(this));
+
+    return counter;
+  }
+
+  /**
+   * Atomically subtracts `by` from a counter and returns its new value, same as `increment(key, -by)`.
+   */
+  public async decrement(
+    key: string,
+    by: number = 1,
+    opts: SqliteCacheIncrementOptions = {}
+  ): Promise<number> {
+    return this.increment(key, -by, opts);
+  }
+
+  /**
+   * Get multiple cache items in a single transaction.
+   * Results are returned in the order of `keys` with `undefined` for missing or expired items.
+   */
+  public async getMany<T = TData>(
+    keys: readonly string[]
+  ): Promise<(T | undefined)[]> {
+    if (this.isClosed) {
+      throw new Error("Cache is closed");
+    }
+
+    const db = await this.db;
+    const time = now();
+    const remembered = keys.map((key) => this.memory?.get(key, time));
+    const rows = db.transaction(() =>
+      keys.map((key, i) => {
+        if (!remembered[i]) {
+          return readItem(db, this.accessLog, key, time);
+        }
+        this.memoryAccessLog?.record(db, key, time);
+        return undefined;
+      })
+    );
+
+    return Promise.all(
+      rows.map(async (res, i) => {
+        if (remembered[i]) {
+          this.counters.hits++;
+          return remembered[i]!.value as T;
+        }
+
+        const decoded = res
+          ? await this.decodeValid<T>(keys[i], res)
+          : undefined;
+        this.countRead(db, keys[i], decoded && res, time);
+
+        if (!res || !decoded || isStale(res, time)) {
+          return undefined;
+        }
+
+        this.memory?.set(keys[i], decoded.value, res);
+        return decoded.value;
+      })
+    );
+  }
+
+  /**
+   * Updates or creates multiple cache items in a single transaction.
+   */
+  public async setMany<T = TData>(
+    entries: readonly SqliteCacheSetManyEntry<T>[]
+  ) {
+    if (this.isClosed) {
+      throw new Error("Cache is closed");
+    }
+
+    const params = await Promise.all(
+      entries.map(({ key, value, ...opts }) => this.encode(key, value, opts))
+    );
+
+    const db = await this.db;
+    const results = db.transaction(() =>
+      params.map((p, i) => this.write(db, p, entries[i].tags))
+    );
+    this.emitWrites(
+      params,
+      results,
+      entries.map((e) => e.value)
+    );
+
+    setImmediate(this.checkForExpiredItems.bind(this));
+  }
+
+  /**
+   * Store contents of `stream` without buffering it in memory. The item is stored in chunks
+   * and is written only after the whole stream was read, it's still a single item for ttl,
+   * eviction, tags and stats. `compressionMinLength` doesn't apply to streams.
+   */
+  public async setStream(
+    key: string,
+    stream: AsyncIterable<Buffer | string> | Iterable<Buffer | string>,
+    opts: SqliteCacheSetStreamOptions = {}
+  ) {
+    if (this.isClosed) {
+      throw new Error("Cache is closed");
+    }
+
+    const db = await this.db;
+    const compression = opts.compress ?? this.configuration.compress ?? false;
+    const codec = compression === true ? "gzip" : compression;
+    const chunkSize = opts.chunkSize ?? STREAM_CHUNK_SIZE;
+    const keyId = this.configuration.encryption?.currentKeyId ?? null;
+    const id = Buffer.from(randomUUID());
+
+    let source: AsyncIterable<Buffer | string> = Readable.from(stream);
+    if (codec) {
+      const compressor = getCompressionCodec(codec).compressStream(
+        opts.compressionLevel ?? this.configuration.compressionLevel
+      );
+      (source as Readable).on("error", (err) => compressor.destroy(err));
+      source = (source as Readable).pipe(compressor);
+    }
+
+    let idx = 0;
+    let size = 0;
+    const writeChunk = (chunk: Buffer) => {
+      const data =
+        keyId === null
+          ? chunk
+          : encrypt(this.configuration, keyId, chunkAad(key, idx), chunk);
+      db.insertChunkStatement.run({ id, idx: idx++, data, now: now() });
+      size += data.length;
+    };
+
+    let result: WriteResult = "skipped";
+    const params: SetStatementParams = {
+      key,
+      value: id,
+      ...itemExpiration(this.configuration, opts),
+      now: now(),
+      compressed: codec ? compressionIds[codec] : 0,
+      size: 0,
+      serializer: STREAM_SERIALIZER,
+      keyId,
+      counter: null,
+    };
+
+    this.activeStreams.set(id, params.now);
+    try {
+      let pending = Buffer.alloc(0);
+      for await (const chunk of source) {
+        pending = concatBuffers([
+          pending,
+          typeof chunk === "string" ? Buffer.from(chunk) : chunk,
+        ]);
+        while (pending.length >= chunkSize) {
+          writeChunk(pending.subarray(0, chunkSize));
+          pending = pending.subarray(chunkSize);
+        }
+      }
+      if (pending.length || idx === 0) {
+        writeChunk(pending);
+      }
+
+      if (this.isClosed) {
+        throw new Error("Cache is closed");
+      }
+
+      params.size = size;
+      params.now = now();
+      result = db.transaction(() => this.write(db, params, opts.tags));
+    } finally {
+      this.activeStreams.delete(id);
+      if (result !== "stored" && !this.isClosed) {
+        db.deleteChunksStatement.run({ id });
+      }
+    }
+
+    this.emitWrites([params], [result]);
+    setImmediate(this.checkForExpiredItems.bind(this));
+  }
+
+  /**
+   * Read item as a stream of `Buffer`s without loading it whole into memory.
+   * Items stored with `set` must have a `Buffer` value. Stale items are treated as missing.
+   */
+  public async getStream(key: string): Promise<Readable | undefined> {
+    if (this.isClosed) {
+      throw new Error("Cache is closed");
+    }
+
+    const db = await this.db;
+    const time = now();
+    const res = readItem(db, this.accessLog, key, time);
+    this.countRead(db, key, res, time);
+
+    if (!res || isStale(res, time)) {
+      return undefined;
+    }
+
+    if (res.serializer !== STREAM_SERIALIZER) {
+      const value = await this.decode(key, res);
+      if (!Buffer.isBuffer(value)) {
+        throw new Error(`Cache item "${key}" is not a Buffer`);
+      }
+      return Readable.from([value]);
+    }
+
+    const stream = Readable.from(this.readChunks(key, res));
+    if (!res.compressed) {
+      return stream;
+    }
+
+    const decompressor = getCompressionCodec(
+      getCompressionById(res.compressed)
+    ).decompressStream();
+    stream.on("error", (err) => decompressor.destroy(err));
+    return stream.pipe(decompressor);
+  }
+
+  /**
+   * Get cache item by it's key or create it with `loader` if it doesn't exist.
+   * Concurrent misses for the same key share a single `loader` call. Errors thrown by `loader`
+   * are propagated to all waiting callers and nothing is cached.
+   * Stale items are refreshed with `loader` as configured by `backgroundRefresh`.
+   */
+  public async getOrSet<T = TData>(
+    key: string,
+    loader: () => T | Promise<T>,
+    opts: SqliteCacheGetOrSetOptions = {}
+  ): Promise<T> {
+    const cached = await this.getWithStatus<T>(key);
+    if (cached === undefined || cached.value === undefined) {
+      return this.load(key, loader, opts);
+    }
+
+    if (!cached.stale) {
+      return cached.value;
+    }
+
+    if (opts.backgroundRefresh ?? true) {
+      this.load(key, loader, opts).catch((ex) => {
+        console.error(
+          "Error in cache-sqlite-lru-ttl when refreshing stale item",
+          ex
+        );
+      });
+
+      return cached.value;
+    }
+
+    try {
+      return await this.load(key, loader, opts);
+    } catch {
+      return cached.value;
+    }
+  }
+
+  /**
+   * Alias for `getOrSet`.
+   */
+  public wrap<T = TData>(
+    key: string,
+    loader: () => T | Promise<T>,
+    opts: SqliteCacheGetOrSetOptions = {}
+  ): Promise<T> {
+    return this.getOrSet(key, loader, opts);
+  }
+
+  /**
+   * Remove specific item from the cache.
+   */
+  public async delete(key: string) {
+    if (this.isClosed) {
+      throw new Error("Cache is closed");
+    }
+
+    const deleted = (await this.db).deleteStatement.all({ key });
+    this.emitRemoved("delete", deleted, "delete");
+  }
+
+  /**
+   * Remove multiple items from the cache in a single transaction.
+   */
+  public async deleteMany(keys: readonly string[]) {
+    if (this.isClosed) {
+      throw new Error("Cache is closed");
+    }
+
+    const db = await this.db;
+    const deleted = db.transaction(() =>
+      keys.flatMap((key) => db.deleteStatement.all({ key }))
+    );
+    this.emitRemoved("delete", deleted, "delete");
+  }
+
+  /**
+   * Remove all items tagged with `tag`.
+   */
+  public async invalidateTag(tag: string) {
+    return this.invalidateTags([tag]);
+  }
+
+  /**
+   * Remove all items tagged with any of `tags` in a single transaction.
+   */
+  public async invalidateTags(tags: readonly string[]) {
+    if (this.isClosed) {
+      throw new Error("Cache is closed");
+    }
+
+    const db = await this.db;
+    const deleted = db.transaction(() =>
+      tags.flatMap((tag) => db.invalidateTagStatement.all({ tag }))
+    );
+    this.emitRemoved("delete", deleted, "tag");
+  }
+
+  /**
+   * Remove all items with keys starting with `prefix`.
+   */
+  public async deleteByPrefix(prefix: string) {
+    return this.deleteMatching({ prefix });
+  }
+
+  /**
+   * Remove all items with keys matching `pattern`.
+   */
+  public async deleteByPattern(
+    pattern: string,
+    patternSyntax: "glob" | "like" = "glob"
+  ) {
+    return this.deleteMatching({ pattern, patternSyntax });
+  }
+
+  /**
+   * Iterate over keys of items which are not expired, loading them in batches.
+   * Iteration doesn't affect LRU order.
+   */
+  public async *keys(
+    opts: SqliteCacheScanOptions = {}
+  ): AsyncGenerator<string, void, undefined> {
+    for await (const rows of this.scan(opts, false)) {
+      for (const row of rows) {
+        yield row.key;
+      }
+    }
+  }
+
+  /**
+   * Iterate over values of items which are not expired, loading them in batches.
+   * Iteration doesn't affect LRU order.
+   */
+  public async *values<T = TData>(
+    opts: SqliteCacheScanOptions = {}
+  ): AsyncGenerator<T, void, undefined> {
+    for await (const [, value] of this.entries<T>(opts)) {
+      yield value;
+    }
+  }
+
+  /**
+   * Iterate over `[key, value]` pairs of items which are not expired, loading them in batches.
+   * Iteration doesn't affect LRU order.
+   */
+  public async *entries<T = TData>(
+    opts: SqliteCacheScanOptions = {}
+  ): AsyncGenerator<[string, T], void, undefined> {
+    for await (const rows of this.scan(opts, true)) {
+      for (const row of rows as ScanStatementResult[]) {
+        const decoded = await this.decodeValid<T>(row.key, row);
+        if (decoded) {
+          yield [row.key, decoded.value];
+        }
+      }
+    }
+  }
+
+  /**
+   * Stream all items which are not expired in their stored form, including stale items and tags.
+   * Expiration is written relative to the time of export so that `import` can restore it later.
+   */
+  public export(opts: SqliteCacheExportOptions = {}): Readable {
+    const format = opts.format ?? "ndjson";
+    const records = this.exportRecords();
+
+    return Readable.from(
+      (async function* () {
+        for await (const record of records) {
+          yield encodeExportRecord(record, format);
+        }
+      })()
+    );
+  }
+
+  /**
+   * Load items from a stream created by `export`. Values are stored as they were exported,
+   * without re-encoding, and expire after the same remaining time as when they were exported.
+   * Returns number of imported items.
+   */
+  public async import(
+    stream: AsyncIterable<Buffer | string> | Iterable<Buffer | string>,
+    opts: SqliteCacheImportOptions = {}
+  ): Promise<number> {
+    if (this.isClosed) {
+      throw new Error("Cache is closed");
+    }
+
+    const db = await this.db;
+    const overwrite = opts.overwrite ?? false;
+    let imported = 0;
+    let batch: SqliteCacheExportRecord[] = [];
+    // Streamed item whose chunks are being imported
+    let streamed:
+      | {
+          record: SqliteCacheExportRecord;
+          id: Buffer;
+          received: number;
+          size: number;
+        }
+      | undefined;
+
+    try {
+      for await (const record of decodeExportRecords(
+        stream,
+        opts.format ?? "ndjson"
+      )) {
+        if ("chunk" in record) {
+          if (
+            !streamed ||
+            record.key !== streamed.record.key ||
+            record.chunk !== streamed.received
+          ) {
+            throw new Error(`Unexpected chunk of cache item "${record.key}"`);
+          }
+
+          db.insertChunkStatement.run({
+            id: streamed.id,
+            idx: record.chunk,
+            data: record.value,
+            now: now(),
+          });
+          streamed.received++;
+          streamed.size += record.value.length;
+
+          if (streamed.received === streamed.record.chunks) {
+            imported += await this.importStream(
+              streamed.record,
+              streamed.id,
+              streamed.size,
+              overwrite
+            );
+            this.activeStreams.delete(streamed.id);
+            streamed = undefined;
+          }
+          continue;
+        }
+
+        if (streamed) {
+          throw new Error(
+            `Cache item "${streamed.record.key}" is missing chunks`
+          );
+        }
+
+        if (record.chunks === 0) {
+          imported += await this.importStream(
+            record,
+            Buffer.from(randomUUID()),
+            0,
+            overwrite
+          );
+          continue;
+        }
+
+        if (record.chunks !== undefined) {
+          streamed = {
+            record,
+            id: Buffer.from(randomUUID()),
+            received: 0,
+            size: 0,
+          };
+          this.activeStreams.set(streamed.id, now());
+          continue;
+        }
+
+        batch.push(record);
+        if (batch.length >= 100) {
+          imported += await this.importBatch(batch, overwrite);
+          batch = [];
+        }
+      }
+
+      if (streamed) {
+        throw new Error(
+          `Cache item "${streamed.record.key}" is missing chunks`
+        );
+      }
+    } finally {
+      if (streamed) {
+        this.activeStreams.delete(streamed.id);
+        if (!this.isClosed) {
+          db.deleteChunksStatement.run({ id: streamed.id });
+        }
+      }
+    }
+
+    imported += await this.importBatch(batch, overwrite);
+    return imported;
+  }
+
+  /**
+   * Copy the whole database to a file at `path` while the cache stays usable. Uses online backup API
+   * of better-sqlite3 and `VACUUM INTO` with bun:sqlite, which requires that `path` doesn't exist yet.
+   */
+  public async backup(path: string) {
+    if (this.isClosed) {
+      throw new Error("Cache is closed");
+    }
+
+    const db = await this.db;
+    if (db.dbType === "better-sqlite3") {
+      await db.db.backup(path);
+    } else {
+      db.db.prepare("VACUUM INTO ?").run(path);
+    }
+  }
+
+  /**
+   * Remove all items from the cache.
+   */
+  public async clear() {
+    if (this.isClosed) {
+      throw new Error("Cache is closed");
+    }
+
+    const deleted = (await this.db).clearStatement.all({});
+    this.emitRemoved("clear", deleted, "clear");
+  }
+
+  /**
+   * Remove expired items and evict items over quotas of the cache and its namespaces right away.
+   * Items are removed in batches of `cleanupBatchSize` with a yield to the event loop between them.
+   * Pending access times are flushed first so that eviction sees them.
+   */
+  public async prune(
+    opts: SqliteCachePruneOptions = {}
+  ): Promise<SqliteCachePruneResult> {
+    if (this.isClosed) {
+      throw new Error("Cache is closed");
+    }
+
+    this.flushAccessLogs(await this.db);
+    return this.pruneItems(opts);
+  }
+
+  /**
+   * Implementation of `prune` used by the background cleanup, which leaves access times to the flush timer.
+   */
+  private async pruneItems(
+    opts: SqliteCachePruneOptions
+  ): Promise<SqliteCachePruneResult> {
+    if (this.isClosed) {
+      throw new Error("Cache is closed");
+    }
+
+    const db = await this.db;
+    const limit = this.configuration.cleanupBatchSize ?? CLEANUP_BATCH_SIZE;
+    const removed = { expired: 0, evicted: 0 };
+
+    for (const step of pruneSteps(
+      this.configuration,
+      db,
+      this.namespaceQuotas
+    )) {
+      while (true) {
+        // Closing the cache stops the cleanup between batches
+        if (this.isClosed) {
+          return { ...removed, abandonedStreams: 0, reclaimedBytes: 0 };
+        }
+
+        const rows = step.remove(limit);
+        this.emitRemoved(step.event, rows, step.reason);
+        removed[step.event] += rows.length;
+        if (rows.length < limit) {
+          break;
+        }
+
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+    }
+
+    // Chunks of streams in progress are not referenced by any item yet
+    const before = Math.min(
+      now() - ABANDONED_STREAM_MS,
+      ...this.activeStreams.values()
+    );
+    let abandonedStreams = 0;
+    while (true) {
+      if (this.isClosed) {
+        return { ...removed, abandonedStreams, reclaimedBytes: 0 };
+      }
+
+      const count = removeAbandonedChunks(db, before, limit);
+      abandonedStreams += count;
+      if (count < limit) {
+        break;
+      }
+
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    const vacuum = opts.vacuum ?? defaultVacuum(this.configuration);
+    return {
+      ...removed,
+      abandonedStreams,
+      reclaimedBytes: vacuum ? vacuumSqliteCache(db, vacuum) : 0,
+    };
+  }
+
+  /**
+   * Get statistics of this cache instance since it was created or since `resetStats`.
+   * Use `formatPrometheusMetrics` to export them.
+   */
+  public async stats(): Promise<SqliteCacheStats> {
+    if (this.isClosed) {
+      throw new Error("Cache is closed");
+    }
+
+    const { items, sizeBytes } = (await this.db).sizeStatement.get({});
+
+    return {
+      cacheTableName: this.configuration.cacheTableName ?? "cache",
+      ...this.counters,
+      items,
+      sizeBytes,
+    };
+  }
+
+  /**
+   * Reset counters returned by `stats`.
+   */
+  public resetStats() {
+    this.counters = emptyCounters();
+  }
+
+  /**
+   * Subscribe to lifecycle events of cache items. Errors thrown by listeners are logged and
+   * don't affect cache operations.
+   */
+  public on<E extends keyof SqliteCacheEvents>(
+    event: E,
+    listener: SqliteCacheEventListener<E>
+  ): this {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+
+    listeners.add(listener);
+    return this;
+  }
+
+  /**
+   * Unsubscribe listener registered with `on`.
+   */
+  public off<E extends keyof SqliteCacheEvents>(
+    event: E,
+    listener: SqliteCacheEventListener<E>
+  ): this {
+    this.listeners.get(event)?.delete(listener);
+    return this;
+  }
+
+  /**
+   * View of items with keys prefixed by `name:` which shares connection and cleanup with this cache.
+   * Namespace can have its own default ttl and quota, which replace quota of the same namespace created before.
+   * Names must not contain `:`, nested namespaces are created with `namespace` of their parent.
+   */
+  public namespace<T = TData>(
+    name: string,
+    opts: SqliteCacheNamespaceOptions = {}
+  ): SqliteCacheNamespace<T> {
+    checkNamespaceName(name);
+    return this.openNamespace<T>(name, opts);
+  }
+
+  /**
+   * Close database and cleanup resources.
+   */
+  public async close() {
+    if (this.isClosed) {
+      return;
+    }
+    this.isClosed = true;
+    clearInterval(this.checkInterval);
+    clearInterval(this.flushInterval);
+    // Ensure any pending cleanup operations complete
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    // Connection which failed to initialize is already closed
+    const db = await this.db.catch(() => undefined);
+    if (db) {
+      this.flushAccessLogs(db);
+    }
+    if (db?.ownsConnection) {
+      db.db.close();
+    }
+  }
+
+  /**
+   * Creates namespace of a name which may contain names of its parent namespaces separated by `:`.
+   */
+  private openNamespace<T>(
+    name: string,
+    opts: SqliteCacheNamespaceOptions
+  ): SqliteCacheNamespace<T> {
+    const prefix = `${name}:`;
+    this.namespaceQuotas.set(prefix, opts);
+
+    return new SqliteCacheNamespace<T>(
+      this,
+      name,
+      opts,
+      (child, childOpts) => this.openNamespace(prefix + child, childOpts),
+      (matchOpts) => this.deleteMatching(matchOpts),
+      () => {
+        if (this.namespaceQuotas.get(prefix) === opts) {
+          this.namespaceQuotas.delete(prefix);
+        }
+      }
+    );
+  }
+
+  /**
+   * Loads item which is neither stale nor expired without affecting LRU order.
+   */
+  private async peekRow(key: string) {
+    if (this.isClosed) {
+      throw new Error("Cache is closed");
+    }
+
+    const time = now();
+    const res = (await this.db).peekStatement.get({ key, now: time });
+    return res && !isStale(res, time) ? res : undefined;
+  }
+
+  /**
+   * Loads matching items which are not expired in batches ordered by key.
+   */
+  private async *scan(
+    opts: SqliteCacheScanOptions,
+    withValues: boolean
+  ): AsyncGenerator<(KeyResult | ScanStatementResult)[], void, undefined> {
+    const limit = opts.batchSize ?? 100;
+    let after: string | null = null;
+
+    while (true) {
+      if (this.isClosed) {
+        throw new Error("Cache is closed");
+      }
+
+      const db = await this.db;
+      const params: ScanStatementParams = {
+        after,
+        now: now(),
+        limit,
+        ...matchParams(opts),
+      };
+      const rows = withValues
+        ? db.scanStatement.all(params)
+        : db.scanKeysStatement.all(params);
+
+      if (rows.length) {
+        yield rows;
+      }
+
+      if (rows.length < limit) {
+        return;
+      }
+
+      after = rows[rows.length - 1].key;
+    }
+  }
+
+  /**
+   * Loads chunks of a streamed item in batches, fails when the item is replaced or removed meanwhile.
+   */
+  private async *readChunks(
+    key: string,
+    res: Pick<GetStatementResult, "value" | "keyId" | "size">
+  ): AsyncGenerator<Buffer, void, undefined> {
+    let from = 0;
+    let size = 0;
+
+    while (size < res.size) {
+      if (this.isClosed) {
+        throw new Error("Cache is closed");
+      }
+
+      const chunks = (await this.db).chunksStatement.all({
+        id: res.value,
+        from,
+        limit: 16,
+      });
+      if (!chunks.length || chunks[0].idx !== from) {
+        throw new Error(`Cache item "${key}" was changed while streaming`);
+      }
+
+      for (const chunk of chunks) {
+        size += chunk.data.length;
+        from = chunk.idx + 1;
+        yield res.keyId === null
+          ? chunk.data
+          : decrypt(
+              this.configuration,
+              res.keyId,
+              chunkAad(key, chunk.idx),
+              chunk.data
+            );
+      }
+    }
+  }
+
+  private async *exportRecords(): AsyncGenerator<
+    SqliteCacheExportRecord | SqliteCacheExportChunk,
+    void,
+    undefined
+  > {
+    let after: string | null = null;
+
+    while (true) {
+      if (this.isClosed) {
+        throw new Error("Cache is closed");
+      }
+
+      const db = await this.db;
+      const time = now();
+      const rows = db.exportStatement.all({
+        after,
+        now: time,
+        limit: 100,
+      });
+
+      for (const row of rows) {
+        const streamed = row.serializer === STREAM_SERIALIZER;
+        // Streamed items are exported chunk by chunk, re-encrypted with the current key
+        const keyId = streamed
+          ? this.configuration.encryption?.currentKeyId ?? null
+          : row.keyId;
+
+        yield {
+          key: row.key,
+          value: streamed
+            ? Buffer.alloc(0)
+            : row.serializer === COUNTER_SERIALIZER
+            ? Buffer.from(String(row.counter))
+            : row.value,
+          compressed: row.compressed
+            ? getCompressionById(row.compressed)
+            : false,
+          serializer: row.serializer ?? "cbor",
+          encryptionKeyId: keyId,
+          expiresInMs: row.expires === null ? null : row.expires - time,
+          staleInMs: row.staleAt === null ? null : row.staleAt - time,
+          tags: JSON.parse(row.tags),
+          ...(streamed ? { chunks: row.chunks! } : {}),
+        };
+
+        if (streamed) {
+          let chunk = 0;
+          for await (const data of this.readChunks(row.key, row)) {
+            yield {
+              key: row.key,
+              chunk,
+              value:
+                keyId === null
+                  ? data
+                  : encrypt(
+                      this.configuration,
+                      keyId,
+                      chunkAad(row.key, chunk),
+                      data
+                    ),
+            };
+            chunk++;
+          }
+        }
+      }
+
+      if (rows.length < 100) {
+        return;
+      }
+
+      after = rows[rows.length - 1].key;
+    }
+  }
+
+  private async importBatch(
+    records: readonly SqliteCacheExportRecord[],
+    overwrite: boolean
+  ): Promise<number> {
+    const db = await this.db;
+    const time = now();
+    const fresh = records.filter(
+      (r) => r.expiresInMs === null || r.expiresInMs > 0
+    );
+    const params = fresh.map((r) => importParams(r, time));
+
+    const results = db.transaction(() =>
+      params.map(
+        (p, i): WriteResult =>
+          !overwrite && db.peekStatement.get({ key: p.key, now: time })
+            ? "skipped"
+            : this.write(db, p, fresh[i].tags)
+      )
+    );
+    this.emitWrites(params, results);
+
+    return results.filter((r) => r === "stored").length;
+  }
+
+  /**
+   * Stores the item if `condition` holds for the current item, which is checked in the same transaction.
+   */
+  private async setIf<T>(
+    key: string,
+    value: T,
+    opts: SqliteCacheSetOptions,
+    condition: (res: PeekStatementResult | undefined) => boolean
+  ): Promise<boolean> {
+    if (this.isClosed) {
+      throw new Error("Cache is closed");
+    }
+
+    const params = await this.encode(key, value, opts);
+    const db = await this.db;
+    const result = db.immediateTransaction(
+      (): WriteResult =>
+        condition(db.peekStatement.get({ key, now: now() }) ?? undefined)
+          ? this.write(db, params, opts.tags)
+          : "skipped"
+    );
+    this.emitWrites([params], [result], [value]);
+
+    setImmediate(this.checkForExpiredItems.bind(this));
+    return result === "stored";
+  }
+
+  /**
+   * Stores streamed item whose chunks were imported under `id`, the chunks are removed when the item is not stored.
+   */
+  private async importStream(
+    record: SqliteCacheExportRecord,
+    id: Buffer,
+    size: number,
+    overwrite: boolean
+  ): Promise<number> {
+    const db = await this.db;
+    const time = now();
+    const params = { ...importParams(record, time), value: id, size };
+    const fresh = record.expiresInMs === null || record.expiresInMs > 0;
+
+    const result = db.transaction(
+      (): WriteResult =>
+        fresh &&
+        (overwrite || !db.peekStatement.get({ key: record.key, now: time }))
+          ? this.write(db, params, record.tags)
+          : "skipped"
+    );
+    if (result !== "stored") {
+      db.deleteChunksStatement.run({ id });
+    }
+    this.emitWrites([params], [result]);
+
+    return result === "stored" ? 1 : 0;
+  }
+
+  private async deleteMatching(opts: SqliteCacheScanOptions) {
+    if (this.isClosed) {
+      throw new Error("Cache is closed");
+    }
+
+    const deleted = (await this.db).deleteMatchingStatement.all(
+      matchParams(opts)
+    );
+    this.emitRemoved("delete", deleted, "delete");
+  }
+
+  /**
+   * Runs `loader` and stores its result. Concurrent calls for the same key share a single `loader` call.
+   */
+  private load<T>(
+    key: string,
+    loader: () => T | Promise<T>,
+    opts: SqliteCacheSetOptions
+  ): Promise<T> {
+    const pending = this.pendingLoads.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const load = (async () => {
+      try {
+        const value = await loader();
+        await this.set(key, value, opts);
+        return value;
+      } finally {
+        this.pendingLoads.delete(key);
+      }
+    })();
+
+    this.pendingLoads.set(key, load);
+    return load;
+  }
+
+  private async encode<T>(
+    key: string,
+    value: T,
+    opts: SqliteCacheSetOptions
+  ): Promise<SetStatementParams> {
+    const { params, compression } = serializeItem(
+      this.configuration,
+      key,
+      value,
+      opts
+    );
+
+    if (!compression) {
+      return withEncryptedValue(this.configuration, params);
+    }
+
+    const compressedValue = await getCompressionCodec(
+      compression.codec
+    ).compress(params.value, compression.level);
+    return withEncryptedValue(
+      this.configuration,
+      withCompressedValue(params, compression.codec, compressedValue)
+    );
+  }
+
+  /**
+   * Stores encoded item together with its tags. Must be called inside of a transaction.
+   */
+  private write(
+    db: SqliteCacheDatabase,
+    params: SetStatementParams,
+    tags?: readonly string[]
+  ): WriteResult {
+    return writeItem(this.configuration, db, params, tags);
+  }
+
+  /**
+   * Updates stats, memory cache and emits events of committed `write` calls.
+   */
+  private emitWrites(
+    params: readonly SetStatementParams[],
+    results: readonly WriteResult[],
+    values?: readonly unknown[]
+  ) {
+    params.forEach((p, i) => {
+      if (results[i] === "stored" && values) {
+        this.memory?.set(p.key, values[i], p);
+      } else {
+        this.memory?.delete(p.key);
+      }
+    });
+
+    const keysWith = (result: WriteResult) =>
+      params.filter((_, i) => results[i] === result).map((p) => p.key);
+
+    const stored = keysWith("stored");
+    this.counters.sets += stored.length;
+    if (stored.length) {
+      this.emit("set", { keys: stored, reason: "set" });
+    }
+
+    const removed = keysWith("removed");
+    if (removed.length) {
+      this.emit("delete", { keys: removed, reason: "oversized" });
+    }
+  }
+
+  /**
+   * Updates stats, memory cache and emits event for items removed by a statement with `RETURNING key`.
+   */
+  private emitRemoved<E extends "delete" | "clear" | "expired" | "evicted">(
+    event: E,
+    rows: readonly KeyResult[],
+    reason: SqliteCacheEvents[E]["reason"]
+  ) {
+    if (!rows.length) {
+      return;
+    }
+
+    for (const { key } of rows) {
+      this.memory?.delete(key);
+    }
+
+    const counter =
+      event === "expired"
+        ? "ttlEvictions"
+        : event === "evicted"
+        ? "lruEvictions"
+        : "deletes";
+    this.counters[counter] += rows.length;
+
+    this.emit(event, { keys: rows.map((r) => r.key), reason });
+  }
+
+  private emit<E extends keyof SqliteCacheEvents>(
+    event: E,
+    payload: SqliteCacheEvent<SqliteCacheEvents[E]["reason"]>
+  ) {
+    const listeners = this.listeners.get(event);
+    if (!listeners) {
+      return;
+    }
+
+    const report = (ex: unknown) =>
+      console.error(
+        `Error in cache-sqlite-lru-ttl ${event} event listener`,
+        ex
+      );
+
+    for (const listener of listeners) {
+      try {
+        const res = listener(payload);
+        if (res instanceof Promise) {
+          res.catch(report);
+        }
+      } catch (ex) {
+        report(ex);
+      }
+    }
+  }
+
+  private countRead(
+    db: SqliteCacheDatabase,
+    key: string,
+    res: GetStatementResult | undefined,
+    time: number
+  ) {
+    if (res && !isStale(res, time)) {
+      this.counters.hits++;
+    } else if (res || db.expiredStatement.get({ key, now: time })) {
+      this.counters.expired++;
+    } else {
+      this.counters.misses++;
+    }
+  }
+
+  /**
+   * Decodes and validates the value with `schema`. Invalid, undecodable and undecryptable items are deleted.
+   * Without any schema other decoding errors are thrown.
+   */
+  private async decodeValid<T>(
+    key: string,
+    res: GetStatementResult,
+    schema: z.ZodType<T> | undefined = this.configuration.schema as
+      | z.ZodType<T>
+      | undefined
+  ): Promise<{ value: T } | undefined> {
+    let error: unknown;
+    try {
+      const value = await this.decode<T>(key, res);
+      if (!schema) {
+        return { value };
+      }
+
+      const result = schema.safeParse(value);
+      if (result.success) {
+        return { value: result.data };
+      }
+      error = result.error;
+    } catch (ex) {
+      if (!schema && !(ex instanceof DecryptionError)) {
+        throw ex;
+      }
+      error = ex;
+    }
+
+    const deleted = (await this.db).deleteStatement.all({ key });
+    this.emitRemoved("delete", deleted, "invalid");
+    reportInvalidValue(this.configuration, key, error);
+    return undefined;
+  }
+
+  private async decode<T>(key: string, res: GetStatementResult): Promise<T> {
+    if (res.serializer === COUNTER_SERIALIZER) {
+      return res.counter as T;
+    }
+
+    let value = storedValue(this.configuration, await this.db, key, res);
+
+    if (res.compressed) {
+      value = await getCompressionCodec(
+        getCompressionById(res.compressed)
+      ).decompress(value);
+    }
+
+    return getSerializer(this.configuration, res.serializer ?? "cbor").decode(
+      value
+    ) as T;
+  }
+
+  private flushAccessLogs(db: SqliteCacheDatabase) {
+    this.accessLog?.flush(db);
+    this.memoryAccessLog?.flush(db);
+  }
+
+  private flushAccesses = async () => {
+    try {
+      this.flushAccessLogs(await this.db);
+    } catch (ex) {
+      console.error(
+        "Error in cache-sqlite-lru-ttl when flushing access times",
+        ex
+      );
+    }
+  };
+
+  private checkForExpiredItems = debounce(
+    async () => {
+      if (this.isClosed || this.configuration.cleanupIntervalMs === false) {
+        return;
+      }
+
+      try {
+        await this.pruneItems({});
+      } catch (ex) {
+        console.error(
+          "Error in cache-sqlite-lru-ttl when checking for expired items",
+          ex
+        );
+      }
+    },
+    100,
+    { immediate: true }
+  );
+}
+
+/**
+ * View of a `SqliteCache` created by `SqliteCache.namespace`. Keys and tags are prefixed by the namespace
+ * so they don't collide with other namespaces, events and iteration report keys without the prefix.
+ * Closing the namespace doesn't close the cache.
+ */
+export class SqliteCacheNamespace<TData = unknown> {
+  private readonly prefix: string;
+  private readonly listeners = new Map<
+    keyof SqliteCacheEvents,
+    Map<SqliteCacheEventListener<any>, SqliteCacheEventListener<any>>
+  >();
+
+  constructor(
+    private readonly cache: SqliteCache<any>,
+    public readonly name: string,
+    private readonly opts: SqliteCacheNamespaceOptions,
+    private readonly openChild: (
+      name: string,
+      opts: SqliteCacheNamespaceOptions
+    ) => SqliteCacheNamespace<any>,
+    private readonly deleteMatching: (
+      opts: SqliteCacheScanOptions
+    ) => Promise<void>,
+    private readonly release: () => void
+  ) {
+    this.prefix = `${name}:`;
+  }
+
+  public get<T = TData>(key: string, opts?: SqliteCacheGetOptions<T>) {
+    return this.cache.get<T>(this.prefix + key, opts);
+  }
+
+  public getWithStatus<T = TData>(
+    key: string,
+    opts?: SqliteCacheGetOptions<T>
+  ) {
+    return this.cache.getWithStatus<T>(this.prefix + key, opts);
+  }
+
+  public getWithMetadata<T = TData>(key: string) {
+    return this.cache.getWithMetadata<T>(this.prefix + key);
+  }
+
+  public peek<T = TData>(key: string) {
+    return this.cache.peek<T>(this.prefix + key);
+  }
+
+  public has(key: string) {
+    return this.cache.has(this.prefix + key);
+  }
+
+  public ttl(key: string) {
+    return this.cache.ttl(this.prefix + key);
+  }
+
+  public touch(key: string, ttlMs = this.opts.defaultTtlMs) {
+    return this.cache.touch(this.prefix + key, ttlMs);
+  }
+
+  public expire(key: string, at: Date | number | undefined) {
+    return this.cache.expire(this.prefix + key, at);
+  }
+
+  public set<T = TData>(
+    key: string,
+    value: T,
+    opts: SqliteCacheSetOptions = {}
+  ) {
+    return this.cache.set<T>(this.prefix + key, value, this.setOptions(opts));
+  }
+
+  public setIfAbsent<T = TData>(
+    key: string,
+    value: T,
+    opts: SqliteCacheSetOptions = {}
+  ) {
+    return this.cache.setIfAbsent<T>(
+      this.prefix + key,
+      value,
+      this.setOptions(opts)
+    );
+  }
+
+  public replace<T = TData>(
+    key: string,
+    value: T,
+    opts: SqliteCacheSetOptions = {}
+  ) {
+    return this.cache.replace<T>(
+      this.prefix + key,
+      value,
+      this.setOptions(opts)
+    );
+  }
+
+  public compareAndSet<T = TData>(
+    key: string,
+    value: T,
+    version: number,
+    opts: SqliteCacheSetOptions = {}
+  ) {
+    return this.cache.compareAndSet<T>(
+      this.prefix + key,
+      value,
+      version,
+      this.setOptions(opts)
+    );
+  }
+
+  public increment(
+    key: string,
+    by?: number,
+    opts: SqliteCacheIncrementOptions = {}
+  ) {
+    return this.cache.increment(this.prefix + key, by, {
+      ttlMs: opts.ttlMs ?? this.opts.defaultTtlMs,
+    });
+  }
+
+  public decrement(
+    key: string,
+    by?: number,
+    opts: SqliteCacheIncrementOptions = {}
+  ) {
+    return this.cache.decrement(this.prefix + key, by, {
+      ttlMs: opts.ttlMs ?? this.opts.defaultTtlMs,
+    });
+  }
+
+  public getMany<T = TData>(keys: readonly string[]) {
+    return this.cache.getMany<T>(keys.map((key) => this.prefix + key));
+  }
+
+  public setMany<T = TData>(entries: readonly SqliteCacheSetManyEntry<T>[]) {
+    return this.cache.setMany<T>(
+      entries.map((e) => ({
+        ...this.setOptions(e),
+        key: this.prefix + e.key,
+        value: e.value,
+      }))
+    );
+  }
+
+  public setStream(
+    key: string,
+    stream: AsyncIterable<Buffer | string> | Iterable<Buffer | string>,
+    opts: SqliteCacheSetStreamOptions = {}
+  ) {
+    return this.cache.setStream(
+      this.prefix + key,
+      stream,
+      this.setOptions(opts)
+    );
+  }
+
+  public getStream(key: string) {
+    return this.cache.getStream(this.prefix + key);
+  }
+
+  public getOrSet<T = TData>(
+    key: string,
+    loader: () => T | Promise<T>,
+    opts: SqliteCacheGetOrSetOptions = {}
+  ) {
+    return this.cache.getOrSet<T>(
+      this.prefix + key,
+      loader,
+      this.setOptions(opts)
+    );
+  }
+
+  public wrap<T = TData>(
+    key: string,
+    loader: () => T | Promise<T>,
+    opts: SqliteCacheGetOrSetOptions = {}
+  ) {
+    return this.getOrSet<T>(key, loader, opts);
+  }
+
+  public delete(key: string) {
+    return this.cache.delete(this.prefix + key);
+  }
 
-// Define types for statement parameters and results
-// Buffer is compatible with Uint8Array for SQLite bindings
-type SQLValue = string | number | bigint | boolean | Uint8Array | Buffer | null;
+  public deleteMany(keys: readonly string[]) {
+    return this.cache.deleteMany(keys.map((key) => this.prefix + key));
+  }
 
-interface GetStatementParams extends Record<string, SQLValue> {
-  key: string;
-  now: number;
-}
+  public invalidateTag(tag: string) {
+    return this.cache.invalidateTag(this.prefix + tag);
+  }
 
-interface GetStatementResult {
-  value: Buffer;
-  compressed: number;
-}
+  public invalidateTags(tags: readonly string[]) {
+    return this.cache.invalidateTags(tags.map((tag) => this.prefix + tag));
+  }
 
-interface SetStatementParams extends Record<string, SQLValue> {
-  key: string;
-  value: Buffer;
-  expires: number | null;
-  now: number;
-  compressed: number;
-}
+  public deleteByPrefix(prefix: string) {
+    return this.cache.deleteByPrefix(this.prefix + prefix);
+  }
 
-interface DeleteStatementParams extends Record<string, SQLValue> {
-  key: string;
-}
+  public deleteByPattern(
+    pattern: string,
+    patternSyntax: "glob" | "like" = "glob"
+  ) {
+    return this.deleteMatching(this.scanOptions({ pattern, patternSyntax }));
+  }
 
-interface CleanupExpiredStatementParams extends Record<string, SQLValue> {
-  now: number;
-}
+  public async *keys(
+    opts: SqliteCacheScanOptions = {}
+  ): AsyncGenerator<string, void, undefined> {
+    for await (const key of this.cache.keys(this.scanOptions(opts))) {
+      yield key.slice(this.prefix.length);
+    }
+  }
 
-interface CleanupLruStatementParams extends Record<string, SQLValue> {
-  maxItems: number;
-}
+  public async *values<T = TData>(
+    opts: SqliteCacheScanOptions = {}
+  ): AsyncGenerator<T, void, undefined> {
+    yield* this.cache.values<T>(this.scanOptions(opts));
+  }
 
-function escapeIdentifier(identifier: string): string {
-  return `"${identifier.replace(/"/g, '""')}"`;
-}
+  public async *entries<T = TData>(
+    opts: SqliteCacheScanOptions = {}
+  ): AsyncGenerator<[string, T], void, undefined> {
+    for await (const [key, value] of this.cache.entries<T>(
+      this.scanOptions(opts)
+    )) {
+      yield [key.slice(this.prefix.length), value];
+    }
+  }
 
-type DatabaseType = "bun" | "better-sqlite3";
+  /**
+   * Remove all items of this namespace.
+   */
+  public clear() {
+    return this.cache.deleteByPrefix(this.prefix);
+  }
 
-async function getDatabase(): Promise<{ Database: any; type: DatabaseType }> {
-  try {
-    const { default: Database } = await import("bun:sqlite");
-    return { Database, type: "bun" };
-  } catch (error) {
-    const Database = (await import("better-sqlite3")).default;
-    return { Database, type: "better-sqlite3" };
+  public namespace<T = TData>(
+    name: string,
+    opts: SqliteCacheNamespaceOptions = {}
+  ): SqliteCacheNamespace<T> {
+    checkNamespaceName(name);
+    return this.openChild(name, opts);
   }
-}
 
-async function initSqliteCache(configuration: SqliteCacheConfiguration) {
-  const { Database, type } = await getDatabase();
+  /**
+   * Subscribe to events of items in this namespace.
+   */
+  public on<E extends keyof SqliteCacheEvents>(
+    event: E,
+    listener: SqliteCacheEventListener<E>
+  ): this {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Map();
+      this.listeners.set(event, listeners);
+    }
 
-  // better-sqlite3 doesn't support strict mode option
-  const db =
-    type === "bun"
-      ? new Database(configuration.database, { strict: true })
-      : new Database(configuration.database);
-  const cacheTableName = configuration.cacheTableName ?? "cache";
-  const escapedTableName = escapeIdentifier(cacheTableName);
+    const wrapped: SqliteCacheEventListener<E> = (payload) => {
+      const keys = payload.keys
+        .filter((key) => key.startsWith(this.prefix))
+        .map((key) => key.slice(this.prefix.length));
+      if (keys.length) {
+        return listener({ ...payload, keys });
+      }
+    };
+    this.off(event, listener);
+    listeners.set(listener, wrapped);
+    this.cache.on(event, wrapped);
+    return this;
+  }
 
-  // Create table and indexes
-  db.exec(`CREATE TABLE IF NOT EXISTS ${escapedTableName} (
-    key TEXT PRIMARY KEY,
-    value BLOB,
-    expires INT,
-    lastAccess INT,
-    compressed BOOLEAN
-  )`);
-
-  db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS key ON ${escapedTableName} (key)`);
-  db.exec(
-    `CREATE INDEX IF NOT EXISTS expires ON ${escapedTableName} (expires)`
-  );
-  db.exec(
-    `CREATE INDEX IF NOT EXISTS lastAccess ON ${escapedTableName} (lastAccess)`
-  );
+  /**
+   * Unsubscribe listener registered with `on`.
+   */
+  public off<E extends keyof SqliteCacheEvents>(
+    event: E,
+    listener: SqliteCacheEventListener<E>
+  ): this {
+    const wrapped = this.listeners.get(event)?.get(listener);
+    if (wrapped) {
+      this.cache.off(event, wrapped);
+      this.listeners.get(event)!.delete(listener);
+    }
+    return this;
+  }
 
-  return {
-    db,
-    dbType: type,
-    getStatement: db.prepare(
-      `UPDATE OR IGNORE ${escapedTableName}
-      SET lastAccess = @now
-      WHERE key = @key AND (expires > @now OR expires IS NULL)
-      RETURNING value, compressed`
-    ) as any as {
-      get(params: GetStatementParams): GetStatementResult | undefined;
-    },
-    setStatement: db.prepare(
-      `INSERT OR REPLACE INTO ${escapedTableName}
-      (key, value, expires, lastAccess, compressed) VALUES (@key, @value, @expires, @now, @compressed)`
-    ) as any as {
-      run(params: SetStatementParams): void;
-    },
-    deleteStatement: db.prepare(
-      `DELETE FROM ${escapedTableName} WHERE key = @key`
-    ) as any as {
-      run(params: DeleteStatementParams): void;
-    },
-    clearStatement: db.prepare(`DELETE FROM ${escapedTableName}`) as any as {
-      run(params?: Record<string, never>): void;
-    },
-    cleanupExpiredStatement: db.prepare(
-      `DELETE FROM ${escapedTableName} WHERE expires < @now`
-    ) as any as {
-      run(params: CleanupExpiredStatementParams): void;
-    },
-    cleanupLruStatement: db.prepare(
-      `DELETE FROM ${escapedTableName}
-      WHERE key IN (
-        SELECT key FROM ${escapedTableName}
-        ORDER BY lastAccess ASC
-        LIMIT MAX(0, (SELECT COUNT(*) - @maxItems FROM ${escapedTableName}))
-      )`
-    ) as any as {
-      run(params: CleanupLruStatementParams): void;
-    },
-  };
-}
+  /**
+   * Unsubscribe listeners and remove quota of this namespace. The cache stays open.
+   */
+  public async close() {
+    for (const [event, listeners] of this.listeners) {
+      for (const listener of listeners.keys()) {
+        this.off(event, listener);
+      }
+    }
+    this.release();
+  }
 
-function now() {
-  return Date.now();
-}
+  private setOptions<T extends SqliteCacheSetOptions>(opts: T): T {
+    return {
+      ...opts,
+      ttlMs: opts.ttlMs ?? this.opts.defaultTtlMs,
+      staleTtlMs: opts.staleTtlMs ?? this.opts.defaultStaleTtlMs,
+      tags: opts.tags?.map((tag) => this.prefix + tag),
+    };
+  }
 
-// Use Node.js zlib APIs (Bun supports these natively)
-const compress = promisify(gzip) as (buffer: Buffer) => Promise<Buffer>;
-const decompress = promisify(gunzip) as (buffer: Buffer) => Promise<Buffer>;
+  private scanOptions(opts: SqliteCacheScanOptions): SqliteCacheScanOptions {
+    return {
+      ...opts,
+      prefix: this.prefix + (opts.prefix ?? ""),
+      pattern:
+        opts.pattern === undefined
+          ? undefined
+          : escapePattern(this.prefix, opts.patternSyntax ?? "glob") +
+            opts.pattern,
+    };
+  }
+}
 
-export class SqliteCache<TData = unknown> {
-  private readonly db: ReturnType<typeof initSqliteCache>;
-  private readonly checkInterval: Timer;
+/**
+ * Synchronous variant of `SqliteCache` for hot paths and code which can't be async.
+ * Both variants use the same table format so they can open the same table. `memoryCache` is not supported.
+ */
+export class SqliteCacheSync<TData = unknown> {
+  private readonly db: SqliteCacheDatabase;
+  private readonly checkInterval: Timer | undefined;
+  private readonly accessLog: AccessLog | undefined;
+  private readonly flushInterval: Timer | undefined;
   private isClosed: boolean = false;
 
-  constructor(private readonly configuration: SqliteCacheConfiguration) {
-    const config = configurationSchema.parse(configuration);
-    this.db = initSqliteCache(config);
-    this.checkInterval = setInterval(this.checkForExpiredItems, 1000);
+  constructor(private readonly configuration: SqliteCacheConfiguration<TData>) {
+    const config = parseConfiguration(configuration);
+    if (config.memoryCache) {
+      throw new Error("SqliteCacheSync doesn't support memoryCache");
+    }
+    this.db = openSqliteCache(
+      typeof config.database === "string" ? getDatabaseSync() : undefined,
+      config
+    );
+    this.checkInterval = startTimer(
+      this.checkForExpiredItems,
+      config.cleanupIntervalMs ?? CLEANUP_INTERVAL_MS
+    );
+    if (config.accessFlushIntervalMs) {
+      this.accessLog = new AccessLog();
+      this.flushInterval = startTimer(
+        this.flushAccesses,
+        config.accessFlushIntervalMs
+      );
+    }
   }
 
   /**
-   * Get cache item by it's key.
+   * Get cache item by it's key. Stale items are treated as missing.
    */
-  public async get<T = TData>(key: string): Promise<T | undefined> {
+  public get<T = TData>(key: string): T | undefined {
     if (this.isClosed) {
       throw new Error("Cache is closed");
     }
 
-    const res = (await this.db).getStatement.get({
-      key,
-      now: now(),
-    });
+    const time = now();
+    const res = readItem(this.db, this.accessLog, key, time);
 
-    if (!res) {
+    if (!res || isStale(res, time)) {
       return undefined;
     }
 
-    let value: Buffer = res.value;
+    const schema = this.configuration.schema as z.ZodType<T> | undefined;
 
-    if (res.compressed) {
-      value = await decompress(value);
+    // Invalid, undecodable and undecryptable items are deleted, same as in SqliteCache
+    let error: unknown;
+    try {
+      const value = this.decode<T>(key, res);
+      if (!schema) {
+        return value;
+      }
+
+      const result = schema.safeParse(value);
+      if (result.success) {
+        return result.data;
+      }
+      error = result.error;
+    } catch (ex) {
+      if (!schema && !(ex instanceof DecryptionError)) {
+        throw ex;
+      }
+      error = ex;
     }
 
-    return cbor.decode(value);
+    this.db.deleteStatement.all({ key });
+    reportInvalidValue(this.configuration, key, error);
+    return undefined;
   }
 
   /**
    * Updates cache item by key or creates new one if it doesn't exist.
    */
-  public async set<T = TData>(
+  public set<T = TData>(
     key: string,
     value: T,
-    opts: { ttlMs?: number; compress?: boolean } = {}
+    opts: SqliteCacheSetOptions = {}
   ) {
     if (this.isClosed) {
       throw new Error("Cache is closed");
     }
 
-    const ttl = opts.ttlMs ?? this.configuration.defaultTtlMs;
-    const expires = ttl !== undefined ? new Date(Date.now() + ttl) : undefined;
-
-    let compression = opts.compress ?? this.configuration.compress ?? false;
-
-    let valueBuffer = cbor.encode(value);
+    let { params, compression } = serializeItem(
+      this.configuration,
+      key,
+      value,
+      opts
+    );
 
-    if (compression && valueBuffer.length >= COMPRESSION_MIN_LENGTH) {
-      const compressed = await compress(valueBuffer);
-      if (compressed.length >= valueBuffer.length) {
-        compression = false;
-      } else {
-        valueBuffer = compressed;
-      }
-    } else {
-      compression = false;
+    if (compression) {
+      const compressedValue = getCompressionCodec(
+        compression.codec
+      ).compressSync(params.value, compression.level);
+      params = withCompressedValue(params, compression.codec, compressedValue);
     }
+    params = withEncryptedValue(this.configuration, params);
 
-    (await this.db).setStatement.run({
-      key,
-      value: valueBuffer,
-      expires: expires?.getTime() ?? null,
-      compressed: compression ? 1 : 0,
-      now: now(),
-    });
+    this.db.transaction(() =>
+      writeItem(this.configuration, this.db, params, opts.tags)
+    );
 
     setImmediate(this.checkForExpiredItems.bind(this));
   }
@@ -256,54 +4497,111 @@ export class SqliteCache<TData = unknown> {
   /**
    * Remove specific item from the cache.
    */
-  public async delete(key: string) {
+  public delete(key: string) {
     if (this.isClosed) {
       throw new Error("Cache is closed");
     }
 
-    (await this.db).deleteStatement.run({ key });
+    this.db.deleteStatement.all({ key });
   }
 
   /**
    * Remove all items from the cache.
    */
-  public async clear() {
+  public clear() {
+    if (this.isClosed) {
+      throw new Error("Cache is closed");
+    }
+
+    this.db.clearStatement.all({});
+  }
+
+  /**
+   * Remove expired items and evict items over quotas right away, in batches of `cleanupBatchSize`.
+   * Pending access times are flushed first so that eviction sees them.
+   */
+  public prune(opts: SqliteCachePruneOptions = {}): SqliteCachePruneResult {
     if (this.isClosed) {
       throw new Error("Cache is closed");
     }
 
-    (await this.db).clearStatement.run({});
+    this.accessLog?.flush(this.db);
+    return this.pruneItems(opts);
+  }
+
+  /**
+   * Implementation of `prune` used by the background cleanup, which leaves access times to the flush timer.
+   */
+  private pruneItems(opts: SqliteCachePruneOptions): SqliteCachePruneResult {
+    const limit = this.configuration.cleanupBatchSize ?? CLEANUP_BATCH_SIZE;
+    const removed = { expired: 0, evicted: 0 };
+
+    for (const step of pruneSteps(this.configuration, this.db, new Map())) {
+      let rows: KeyResult[];
+      do {
+        rows = step.remove(limit);
+        removed[step.event] += rows.length;
+      } while (rows.length >= limit);
+    }
+
+    let abandonedStreams = 0;
+    let count: number;
+    do {
+      count = removeAbandonedChunks(
+        this.db,
+        now() - ABANDONED_STREAM_MS,
+        limit
+      );
+      abandonedStreams += count;
+    } while (count >= limit);
+
+    const vacuum = opts.vacuum ?? defaultVacuum(this.configuration);
+    return {
+      ...removed,
+      abandonedStreams,
+      reclaimedBytes: vacuum ? vacuumSqliteCache(this.db, vacuum) : 0,
+    };
   }
 
   /**
    * Close database and cleanup resources.
    */
-  public async close() {
+  public close() {
     if (this.isClosed) {
       return;
     }
     this.isClosed = true;
     clearInterval(this.checkInterval);
-    // Ensure any pending cleanup operations complete
-    await new Promise((resolve) => setTimeout(resolve, 0));
-    (await this.db).db.close();
+    clearInterval(this.flushInterval);
+    this.accessLog?.flush(this.db);
+    if (this.db.ownsConnection) {
+      this.db.db.close();
+    }
+  }
+
+  private decode<T>(key: string, res: GetStatementResult): T {
+    return decodeItemSync(this.configuration, this.db, key, res) as T;
   }
 
+  private flushAccesses = () => {
+    try {
+      this.accessLog?.flush(this.db);
+    } catch (ex) {
+      console.error(
+        "Error in cache-sqlite-lru-ttl when flushing access times",
+        ex
+      );
+    }
+  };
+
   private checkForExpiredItems = debounce(
-    async () => {
-      if (this.isClosed) {
+    () => {
+      if (this.isClosed || this.configuration.cleanupIntervalMs === false) {
         return;
       }
 
       try {
-        const db = await this.db;
-        db.cleanupExpiredStatement.run({ now: now() });
-
-        if (this.configuration.maxItems) {
-          db.cleanupLruStatement.run({
-            maxItems: this.configuration.maxItems,
-          });
-        }
+        this.pruneItems({});
       } catch (ex) {
         console.error(
           "Error in cache-sqlite-lru-ttl when checking for expired items",
@@ -316,4 +4614,246 @@ export class SqliteCache<TData = unknown> {
   );
 }
 
+const prometheusMetrics: {
+  [K in Exclude<keyof SqliteCacheStats, "cacheTableName">]: {
+    name: string;
+    type: "counter" | "gauge";
+    help: string;
+  };
+} = {
+  hits: {
+    name: "hits_total",
+    type: "counter",
+    help: "Reads which returned a fresh item",
+  },
+  misses: {
+    name: "misses_total",
+    type: "counter",
+    help: "Reads of keys which are not in the cache",
+  },
+  expired: {
+    name: "expired_total",
+    type: "counter",
+    help: "Reads of items past their ttl",
+  },
+  sets: { name: "sets_total", type: "counter", help: "Items written" },
+  deletes: {
+    name: "deletes_total",
+    type: "counter",
+    help: "Items deleted explicitly",
+  },
+  ttlEvictions: {
+    name: "ttl_evictions_total",
+    type: "counter",
+    help: "Items evicted after expiration",
+  },
+  lruEvictions: {
+    name: "lru_evictions_total",
+    type: "counter",
+    help: "Items evicted by maxItems or maxSizeBytes",
+  },
+  items: { name: "items", type: "gauge", help: "Number of items in the cache" },
+  sizeBytes: {
+    name: "size_bytes",
+    type: "gauge",
+    help: "Stored size of all items in bytes",
+  },
+};
+
+/**
+ * [Keyv](https://github.com/jaredwray/keyv) storage adapter, `new Keyv({ store: new SqliteKeyvStore(cache) })`.
+ * Keyv prefixes keys with its namespace and `clear` removes only items of that namespace.
+ * Ttl is in milliseconds, missing or 0 ttl uses `defaultTtlMs` of the cache.
+ */
+export class SqliteKeyvStore extends EventEmitter {
+  /**
+   * Set by Keyv.
+   */
+  public namespace: string | undefined;
+
+  public readonly opts = { dialect: "sqlite" };
+
+  constructor(public readonly cache: SqliteCache | SqliteCacheNamespace) {
+    super();
+  }
+
+  public async get<T>(key: string): Promise<T | undefined> {
+    return this.cache.get<T>(key);
+  }
+
+  public async getMany<T>(keys: string[]): Promise<Array<T | undefined>> {
+    return this.cache.getMany<T>(keys);
+  }
+
+  public async set(key: string, value: unknown, ttl?: number) {
+    await this.cache.set(key, value, { ttlMs: ttl || undefined });
+    return true;
+  }
+
+  public async setMany(
+    entries: Array<{ key: string; value: unknown; ttl?: number }>
+  ) {
+    await this.cache.setMany(
+      entries.map((e) => ({
+        key: e.key,
+        value: e.value,
+        ttlMs: e.ttl || undefined,
+      }))
+    );
+  }
+
+  public async has(key: string): Promise<boolean> {
+    return this.cache.has(key);
+  }
+
+  public async delete(key: string): Promise<boolean> {
+    const existed = await this.cache.has(key);
+    await this.cache.delete(key);
+    return existed;
+  }
+
+  public async deleteMany(keys: string[]): Promise<boolean> {
+    const existed = await Promise.all(keys.map((key) => this.cache.has(key)));
+    await this.cache.deleteMany(keys);
+    return existed.some(Boolean);
+  }
+
+  public async clear() {
+    if (this.namespace) {
+      await this.cache.deleteByPrefix(`${this.namespace}:`);
+    } else {
+      await this.cache.clear();
+    }
+  }
+
+  public async *iterator(namespace?: string) {
+    yield* this.cache.entries({
+      prefix: namespace ? `${namespace}:` : undefined,
+    });
+  }
+
+  public async disconnect() {
+    await this.cache.close();
+  }
+}
+
+export interface SqliteCacheManagerStoreOptions {
+  /**
+   * Keys are stored prefixed with `namespace:` and `reset` removes only items of this namespace.
+   * @default undefined - keys are stored as is
+   */
+  readonly namespace?: string;
+}
+
+/**
+ * [cache-manager](https://github.com/jaredwray/cacheable/tree/main/packages/cache-manager) v5 store,
+ * `caching(new SqliteCacheManagerStore(cache))`.
+ * Ttl is in milliseconds, missing or 0 ttl uses `defaultTtlMs` of the cache.
+ */
+export class SqliteCacheManagerStore {
+  private readonly prefix: string;
+
+  constructor(
+    public readonly cache: SqliteCache | SqliteCacheNamespace,
+    opts: SqliteCacheManagerStoreOptions = {}
+  ) {
+    this.prefix = opts.namespace ? `${opts.namespace}:` : "";
+  }
+
+  public async get<T>(key: string): Promise<T | undefined> {
+    return this.cache.get<T>(this.prefix + key);
+  }
+
+  public async set<T>(key: string, data: T, ttl?: number) {
+    await this.cache.set(this.prefix + key, data, { ttlMs: ttl || undefined });
+  }
+
+  public async del(key: string) {
+    await this.cache.delete(this.prefix + key);
+  }
+
+  public async reset() {
+    if (this.prefix) {
+      await this.cache.deleteByPrefix(this.prefix);
+    } else {
+      await this.cache.clear();
+    }
+  }
+
+  public async mget(...keys: string[]): Promise<unknown[]> {
+    return this.cache.getMany(keys.map((key) => this.prefix + key));
+  }
+
+  public async mset(args: [string, unknown][], ttl?: number) {
+    await this.cache.setMany(
+      args.map(([key, value]) => ({
+        key: this.prefix + key,
+        value,
+        ttlMs: ttl || undefined,
+      }))
+    );
+  }
+
+  public async mdel(...keys: string[]) {
+    await this.cache.deleteMany(keys.map((key) => this.prefix + key));
+  }
+
+  /**
+   * Keys of items which are not expired, optionally matching glob `pattern`.
+   */
+  public async keys(pattern = "*"): Promise<string[]> {
+    const keys: string[] = [];
+    for await (const key of this.cache.keys({
+      prefix: this.prefix || undefined,
+      pattern: escapePattern(this.prefix, "glob") + pattern,
+    })) {
+      keys.push(key.slice(this.prefix.length));
+    }
+
+    return keys;
+  }
+
+  /**
+   * Remaining ttl in milliseconds, `Infinity` for items without ttl and 0 for missing items.
+   */
+  public async ttl(key: string): Promise<number> {
+    return (await this.cache.ttl(this.prefix + key)) ?? 0;
+  }
+
+  public async has(key: string): Promise<boolean> {
+    return this.cache.has(this.prefix + key);
+  }
+}
+
+function escapePrometheusLabel(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+/**
+ * Render stats of one or more caches in Prometheus text exposition format labelled by `cache_table`.
+ */
+export function formatPrometheusMetrics(
+  stats: readonly SqliteCacheStats[],
+  prefix = "cache_sqlite_lru_ttl"
+): string {
+  const lines: string[] = [];
+
+  for (const [key, metric] of Object.entries(prometheusMetrics)) {
+    const name = `${prefix}_${metric.name}`;
+    lines.push(`# HELP ${name} ${metric.help}.`);
+    lines.push(`# TYPE ${name} ${metric.type}`);
+
+    for (const s of stats) {
+      const label = escapePrometheusLabel(s.cacheTableName);
+      const value = s[key as keyof typeof prometheusMetrics];
+      lines.push(`${name}{cache_table="${label}"} ${value}`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
 export default SqliteCache;